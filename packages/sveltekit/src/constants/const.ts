@@ -14,3 +14,15 @@ export const TARGETS_MAP: Record<
   "linux-x64-musl": "bun-linux-x64-musl",
   "linux-arm64-musl": "bun-linux-arm64-musl",
 };
+// Rust target triples, used by sidecar shells such as Tauri to pick a binary
+export const TARGET_TRIPLES: Record<
+  NonNullable<AdapterOptions["target"]>,
+  string
+> = {
+  "linux-x64": "x86_64-unknown-linux-gnu",
+  "macos-arm64": "aarch64-apple-darwin",
+  "darwin-x64": "x86_64-apple-darwin",
+  "darwin-arm64": "aarch64-apple-darwin",
+  "linux-x64-musl": "x86_64-unknown-linux-musl",
+  "linux-arm64-musl": "aarch64-unknown-linux-musl",
+};
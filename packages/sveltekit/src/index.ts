@@ -1,6 +1,6 @@
 // Libs
-import { join } from "path";
-import { writeFile } from "fs/promises";
+import { join, resolve } from "path";
+import { readFile, writeFile } from "fs/promises";
 
 // Colors for terminal output
 const colors = {
@@ -20,6 +20,8 @@ const colors = {
 import type { AdapterOptions } from "./types/AdapterOptions";
 import type { Adapter } from "@sveltejs/kit";
 
+export type { ExecPlatform } from "./types/Platform";
+
 // Constants
 import { ADAPTER_NAME, SVELTEKIT_DIR } from "./constants/const";
 
@@ -29,8 +31,15 @@ import {
   generateAssetImports,
   analyzeAssets,
 } from "./utils/assets";
-import { compileApplication } from "./utils/compile";
+import { compileApplication, getTargetTriple } from "./utils/compile";
+import { precompressAssets } from "./utils/compress";
+import { readHeadersFile } from "./utils/headers";
+import {
+  resolveUserModule,
+  generateUserModuleProxy,
+} from "./utils/modules";
 import { generateDockerfile } from "./utils/docker";
+import { createDevPlatform } from "./utils/platform";
 import { BuildReporter } from "./utils/reporter";
 import {
   validateAssets,
@@ -40,6 +49,15 @@ import {
   type AssetValidationResult,
 } from "./utils/validation";
 
+/**
+ * Read a package.json, or an empty object if there is none
+ */
+async function readPackageJson(directory: string) {
+  return readFile(join(directory, "package.json"), "utf-8")
+    .then((content) => JSON.parse(content))
+    .catch(() => ({}));
+}
+
 /**
  * Create the sveltekit-exec-adapter
  * @param {AdapterOptions} [options] - Adapter options
@@ -55,6 +73,23 @@ const adapter = (options?: AdapterOptions): Adapter => {
         binaryName: "app",
         ...options,
       };
+      // Sidecar shells such as Tauri look binaries up by target triple
+      if (adapterOptions.targetTriple) {
+        adapterOptions.binaryName = `${adapterOptions.binaryName}-${getTargetTriple(adapterOptions.target)}`;
+      }
+      for (const [name, spec] of Object.entries(adapterOptions.env ?? {})) {
+        if (spec.type === "enum" && !spec.values?.length) {
+          throw new Error(`env.${name}: the "enum" type requires values`);
+        }
+      }
+      const assetResolution =
+        adapterOptions.assetResolution ??
+        (adapterOptions.embedStatic ? "embedded" : "external");
+      if (!adapterOptions.embedStatic && assetResolution !== "external") {
+        throw new Error(
+          `assetResolution "${assetResolution}" requires embedStatic, use "external" to serve assets from disk only`
+        );
+      }
 
       // Initialize build reporter
       const reporter = new BuildReporter(builder);
@@ -97,8 +132,73 @@ const adapter = (options?: AdapterOptions): Adapter => {
 
       // Step 4.5: Generate adapter configuration
       reporter.startStep("config");
+      const appPackage = await readPackageJson(process.cwd());
+      const adapterPackage = await readPackageJson(
+        join(import.meta.dirname, "..")
+      );
+      // Error page served when a request fails before SvelteKit can render one
+      const errorPage =
+        adapterOptions.errorPage === false
+          ? null
+          : await readFile(
+              resolve(
+                adapterOptions.errorPage ??
+                  builder.config.kit.files?.errorTemplate ??
+                  "src/error.html"
+              ),
+              "utf-8"
+            ).catch(() => null);
+      // Header rules from the _headers file come first, so the option overrides them
+      const headersFileRules =
+        adapterOptions.headersFile === false
+          ? []
+          : await readHeadersFile(adapterOptions.headersFile ?? "_headers");
       const adapterConfig = {
+        binaryName: adapterOptions.binaryName,
+        appName: appPackage.name ?? adapterOptions.binaryName,
+        appVersion: appPackage.version ?? "0.0.0",
+        adapterVersion: adapterPackage.version ?? "unknown",
+        port: adapterOptions.port ?? 3000,
+        host: adapterOptions.host ?? "0.0.0.0",
         openBrowser: adapterOptions.openBrowser ?? false,
+        shutdownTimeout: adapterOptions.shutdownTimeout ?? 30,
+        workers: adapterOptions.workers ?? 1,
+        portFallback: adapterOptions.portFallback ?? false,
+        singleInstance: adapterOptions.singleInstance ?? false,
+        env: adapterOptions.env ?? {},
+        assetResolution,
+        headers: [
+          ...headersFileRules,
+          ...Object.entries(adapterOptions.headers ?? {}),
+        ],
+        // Served before SvelteKit, exactly as written by the prerenderer
+        prerendered: {
+          pages: Object.fromEntries(
+            Array.from(builder.prerendered.pages, ([path, { file }]) => [
+              path,
+              file,
+            ])
+          ),
+          redirects: Object.fromEntries(builder.prerendered.redirects),
+        },
+        precompress: adapterOptions.precompress ?? false,
+        tls: adapterOptions.tls,
+        accessLog: adapterOptions.accessLog ?? false,
+        health: adapterOptions.health,
+        metrics: adapterOptions.metrics ?? false,
+        errors: {
+          page: errorPage,
+          debug: adapterOptions.debugErrors ?? false,
+        },
+        limits: {
+          bodySizeLimit: adapterOptions.bodySizeLimit,
+          idleTimeout: adapterOptions.idleTimeout,
+          requestTimeout: adapterOptions.requestTimeout,
+          routeTimeouts: adapterOptions.routeTimeouts,
+        },
+        ipFilter: adapterOptions.ipFilter ?? {},
+        rateLimits: adapterOptions.rateLimits ?? {},
+        auth: adapterOptions.auth ?? false,
         // Add other runtime configuration options here as needed
       };
       const configModule = `export const adapterConfig = ${JSON.stringify(
@@ -111,6 +211,52 @@ const adapter = (options?: AdapterOptions): Adapter => {
         configModule,
         "utf-8"
       );
+
+      // Readiness checks are bundled from a user module when present
+      const healthChecksModule =
+        adapterOptions.health === false
+          ? null
+          : await resolveUserModule(
+              adapterOptions.health?.checks ?? "src/health"
+            );
+      await writeFile(
+        join(SVELTEKIT_DIR, "adapter-runtime", "health.generated.ts"),
+        generateUserModuleProxy(healthChecksModule, ["checks"]),
+        "utf-8"
+      );
+
+      // WebSocket handlers are bundled from a user module when present
+      const websocketsModule =
+        adapterOptions.websockets === false
+          ? null
+          : await resolveUserModule(
+              adapterOptions.websockets ?? "src/websockets"
+            );
+      await writeFile(
+        join(SVELTEKIT_DIR, "adapter-runtime", "websockets.generated.ts"),
+        generateUserModuleProxy(websocketsModule, [
+          "open",
+          "message",
+          "close",
+          "drain",
+        ]),
+        "utf-8"
+      );
+
+      // Lifecycle hooks (onStart, onShutdown, schedule) are bundled from a user module when present
+      const lifecycleModule =
+        adapterOptions.hooks === false
+          ? null
+          : await resolveUserModule(adapterOptions.hooks ?? "src/exec.hooks");
+      await writeFile(
+        join(SVELTEKIT_DIR, "adapter-runtime", "lifecycle.generated.ts"),
+        generateUserModuleProxy(lifecycleModule, [
+          "onStart",
+          "onShutdown",
+          "schedule",
+        ]),
+        "utf-8"
+      );
       reporter.completeStep("config");
 
       // Step 5: Generate assets imports
@@ -202,7 +348,13 @@ const adapter = (options?: AdapterOptions): Adapter => {
           }
         }
 
-        const assetImports = generateAssetImports(clientAssets);
+        const compressedAssets = adapterOptions.precompress
+          ? await precompressAssets(clientAssets)
+          : new Map();
+        const assetImports = generateAssetImports(
+          clientAssets,
+          compressedAssets
+        );
         await writeFile(
           join(SVELTEKIT_DIR, "adapter-runtime", "assets.generated.ts"),
           assetImports
@@ -211,9 +363,12 @@ const adapter = (options?: AdapterOptions): Adapter => {
         const totalSizeMB = validationResult
           ? (validationResult.totalSize / (1024 * 1024)).toFixed(1)
           : (assetAnalysis.totalSize / (1024 * 1024)).toFixed(1);
+        const compressedStr = adapterOptions.precompress
+          ? `, ${compressedAssets.size} precompressed`
+          : "";
         reporter.completeStep(
           "assets",
-          `${assetCount} assets, ${totalSizeMB}MB total`
+          `${assetCount} assets, ${totalSizeMB}MB total${compressedStr}`
         );
       } else {
         // Just copy the assets to be served from disk
@@ -225,9 +380,21 @@ const adapter = (options?: AdapterOptions): Adapter => {
           join(SVELTEKIT_DIR, "prerendered"),
           join(adapterOptions.out, "prerendered")
         );
+        if (adapterOptions.precompress) {
+          await precompressAssets(
+            await discoverClientAssets(
+              join(adapterOptions.out, "client"),
+              join(adapterOptions.out, "prerendered")
+            )
+          );
+        }
         await writeFile(
           join(SVELTEKIT_DIR, "adapter-runtime", "assets.generated.ts"),
-          "export const assetMap = new Map([]);"
+          [
+            "export const assetMap = new Map([]);",
+            "export const assetMetadata = new Map([]);",
+            "export const encodedAssetMap = new Map([]);",
+          ].join("\n")
         );
         reporter.completeStep("assets", "External assets copied");
       }
@@ -261,6 +428,19 @@ const adapter = (options?: AdapterOptions): Adapter => {
         `${colors.green}${colors.bright}[INFO]${colors.reset} ${colors.green}Start the application with: ${colors.bright}./${binaryPath}${colors.reset}`
       );
     },
+    // The binary's event.platform, as far as it exists without Bun.serve
+    emulate: async () => {
+      const appPackage = await readPackageJson(process.cwd());
+      const adapterPackage = await readPackageJson(
+        join(import.meta.dirname, "..")
+      );
+      const build = {
+        name: appPackage.name ?? options?.binaryName ?? "app",
+        version: appPackage.version ?? "0.0.0",
+        adapterVersion: adapterPackage.version ?? "unknown",
+      };
+      return { platform: () => createDevPlatform(build) };
+    },
     supports: {
       read: () => true,
     },
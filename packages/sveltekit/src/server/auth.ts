@@ -0,0 +1,183 @@
+// Libs
+import { createHash, timingSafeEqual } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { matchPath } from "./patterns";
+
+// Types
+type AuthType = "basic" | "bearer";
+
+interface AuthConfig {
+  type: AuthType;
+  realm: string;
+  /** Password hashes by user name, for Basic auth */
+  users: Map<string, string>;
+  /** Token expected in the Authorization header, for bearer auth */
+  token?: string;
+  /** Path globs served without credentials */
+  exempt: string[];
+}
+
+export type { AuthConfig };
+
+interface BuildTimeAuth {
+  type?: AuthType;
+  realm?: string;
+  htpasswdFile?: string;
+  exempt?: string[];
+}
+
+// Hashes Bun.password can verify
+const SUPPORTED_HASH = /^\$(2[aby]|argon2(id|i|d))\$/;
+
+// Successful Basic credentials are remembered, hashes are slow on purpose
+const MAX_VERIFIED = 1000;
+
+/**
+ * Parse htpasswd entries (`user:hash` lines), as written by
+ * `htpasswd -B` or any bcrypt/argon2 tool
+ */
+export function parseHtpasswd(content: string, source: string) {
+  const users = new Map<string, string>();
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    const separator = trimmed.indexOf(":");
+    const user = trimmed.slice(0, separator);
+    const hash = trimmed.slice(separator + 1);
+    if (separator <= 0 || !SUPPORTED_HASH.test(hash)) {
+      throw new Error(
+        `${source}:${index + 1}: expected "user:hash" with a bcrypt or argon2 hash`
+      );
+    }
+    users.set(user, hash);
+  });
+  return users;
+}
+
+/**
+ * Resolve the authentication gate. AUTH (basic, bearer or off) takes
+ * precedence over the build-time `auth.type`. Credentials are only read at
+ * runtime: Basic users from the AUTH_HTPASSWD file (or `auth.htpasswdFile`,
+ * next to the binary) and AUTH_USERS, the bearer token from AUTH_TOKEN.
+ * @returns null when authentication is disabled
+ */
+export function resolveAuthConfig(
+  buildTime: BuildTimeAuth | false | undefined,
+  appName: string
+): AuthConfig | null {
+  const env = process.env;
+  const value = env.AUTH?.trim().toLowerCase();
+  if (value && !["basic", "bearer", "off"].includes(value)) {
+    throw new Error(`AUTH must be one of basic, bearer or off, got "${value}"`);
+  }
+  if (value === "off") return null;
+
+  const options = buildTime || {};
+  const type = (value as AuthType | undefined) ?? options.type;
+  if (!type) return null;
+
+  const config: AuthConfig = {
+    type,
+    realm: options.realm ?? appName,
+    users: new Map(),
+    exempt: options.exempt ?? [],
+  };
+
+  if (type === "bearer") {
+    config.token = env.AUTH_TOKEN;
+    if (!config.token) {
+      throw new Error("Bearer authentication requires AUTH_TOKEN");
+    }
+    return config;
+  }
+
+  const htpasswdPath = env.AUTH_HTPASSWD
+    ? resolve(env.AUTH_HTPASSWD)
+    : options.htpasswdFile &&
+      resolve(dirname(process.execPath), options.htpasswdFile);
+  if (htpasswdPath) {
+    let content: string;
+    try {
+      content = readFileSync(htpasswdPath, "utf-8");
+    } catch (error) {
+      throw new Error(
+        `Cannot read htpasswd file ${htpasswdPath}: ${(error as Error).message}`
+      );
+    }
+    config.users = parseHtpasswd(content, htpasswdPath);
+  }
+  if (env.AUTH_USERS) {
+    // Entries may be separated by newlines or spaces, hashes contain neither
+    const entries = env.AUTH_USERS.trim().split(/\s+/).join("\n");
+    for (const [user, hash] of parseHtpasswd(entries, "AUTH_USERS")) {
+      config.users.set(user, hash);
+    }
+  }
+  if (config.users.size === 0) {
+    throw new Error(
+      "Basic authentication requires users, from AUTH_HTPASSWD, AUTH_USERS or auth.htpasswdFile"
+    );
+  }
+  return config;
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Create the authentication check run before static files and the app
+ * @returns A function resolving to a 401 response when the request is
+ * not authenticated, or null
+ */
+export function createAuthenticator(config: AuthConfig) {
+  const verified = new Set<string>();
+  const scheme = config.type === "basic" ? "Basic" : "Bearer";
+  const challenge = `${scheme} realm="${config.realm.replace(/["\\]/g, "")}"${
+    config.type === "basic" ? ', charset="UTF-8"' : ""
+  }`;
+
+  const isAuthorized = async (authorization: string) => {
+    // The scheme is case-insensitive, e.g. "bearer <token>"
+    const separator = authorization.indexOf(" ");
+    const prefix = authorization.slice(0, separator).toLowerCase();
+    const value = authorization.slice(separator + 1);
+    if (separator < 0 || prefix !== config.type || !value) return false;
+
+    if (config.type === "bearer") return safeEqual(value, config.token!);
+
+    // Only a digest of the header is kept in memory
+    const key = createHash("sha256").update(authorization).digest("hex");
+    if (verified.has(key)) return true;
+
+    const credentials = Buffer.from(value, "base64").toString("utf-8");
+    const colon = credentials.indexOf(":");
+    const hash = config.users.get(credentials.slice(0, colon));
+    if (colon < 0 || !hash) return false;
+    if (!(await Bun.password.verify(credentials.slice(colon + 1), hash))) {
+      return false;
+    }
+
+    if (verified.size >= MAX_VERIFIED) verified.clear();
+    verified.add(key);
+    return true;
+  };
+
+  return async (req: Request, pathname: string) => {
+    if (config.exempt.some((pattern) => matchPath(pattern, pathname))) {
+      return null;
+    }
+
+    const authorization = req.headers.get("Authorization");
+    if (authorization && (await isAuthorized(authorization))) return null;
+
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: { "WWW-Authenticate": challenge, "Cache-Control": "no-store" },
+    });
+  };
+}
@@ -0,0 +1,203 @@
+// Libs
+import { parseArgs } from "node:util";
+import { describeEnvVariable, type EnvSchema } from "./variables";
+
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  cyan: "\x1b[36m",
+};
+
+// Types
+export interface CliArgs {
+  port?: string;
+  host?: string;
+  socket?: string;
+  workers?: string;
+  config?: string;
+  printEnv: boolean;
+  sidecar: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+interface ListenDefaults {
+  port: number;
+  host: string;
+}
+
+interface HelpInfo {
+  binaryName: string;
+  appName: string;
+  appVersion: string;
+  defaults: ListenDefaults;
+  /** Environment variables declared by the app */
+  env: EnvSchema;
+}
+
+// Flags accepted by the binary, in the order they are listed by --help
+const FLAGS = [
+  {
+    usage: "--port, -p <number>",
+    env: "PORT",
+    description: "Port to listen on",
+  },
+  {
+    usage: "--host, -H <address>",
+    env: "HOST",
+    description: "Address to bind to (e.g. 127.0.0.1, 0.0.0.0, ::)",
+  },
+  {
+    usage: "--socket, -s <path>",
+    env: "SOCKET_PATH",
+    description: "Listen on a Unix socket instead of a TCP port",
+  },
+  {
+    usage: "--workers, -w <count|auto>",
+    env: "WORKERS",
+    description: "Worker processes sharing the port (auto: one per CPU core)",
+  },
+  {
+    usage: "--config, -c <path>",
+    description:
+      "JSON or TOML config file of env vars (default: app.config.json or .toml next to the binary)",
+  },
+  {
+    usage: "--sidecar",
+    description:
+      "Run as a sidecar: random localhost port, JSON handshake on stdout, exit with the parent",
+  },
+  {
+    usage: "--print-env",
+    description: "Print the app's environment variables, secrets redacted, and exit",
+  },
+  { usage: "--help, -h", description: "Show this help and exit" },
+  { usage: "--version, -v", description: "Print the app version and exit" },
+] as Array<{ usage: string; env?: string; description: string }>;
+
+/**
+ * Print a fatal startup error and exit
+ */
+export function fail(message: string): never {
+  console.error(
+    `${colors.red}${colors.bright}[ERROR]${colors.reset} ${colors.red}${message}${colors.reset}`
+  );
+  process.exit(1);
+}
+
+/**
+ * Parse the command-line flags passed to the binary
+ */
+export function parseCliArgs(argv: string[] = process.argv.slice(2)): CliArgs {
+  try {
+    const { values } = parseArgs({
+      args: argv,
+      options: {
+        port: { type: "string", short: "p" },
+        host: { type: "string", short: "H" },
+        socket: { type: "string", short: "s" },
+        workers: { type: "string", short: "w" },
+        config: { type: "string", short: "c" },
+        "print-env": { type: "boolean", default: false },
+        sidecar: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+        version: { type: "boolean", short: "v", default: false },
+      },
+      strict: true,
+      allowPositionals: false,
+    });
+
+    const { "print-env": printEnv, ...rest } = values;
+    return { ...rest, printEnv } as CliArgs;
+  } catch (error) {
+    fail(`${(error as Error).message}. Run with --help for usage.`);
+  }
+}
+
+/**
+ * Resolve the address to listen on.
+ * Precedence: command-line flags > HOST/PORT env vars > build-time defaults.
+ */
+export function resolveListenOptions(args: CliArgs, defaults: ListenDefaults) {
+  // Sidecars take a random localhost port, whatever PORT and HOST say
+  const env = args.sidecar ? {} : process.env;
+  if (args.sidecar) defaults = { port: 0, host: "127.0.0.1" };
+
+  const rawPort = args.port ?? env.PORT;
+  let port = defaults.port;
+
+  if (rawPort !== undefined && rawPort !== "") {
+    port = Number(rawPort);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      fail(`Invalid port "${rawPort}", expected an integer from 0 to 65535`);
+    }
+  }
+
+  const hostname = args.host || env.HOST || defaults.host;
+
+  return { port, hostname };
+}
+
+/**
+ * Build the URL to display for a listening address. Wildcard addresses are
+ * shown as localhost since that is what a local user can open.
+ */
+export function formatListenUrl(
+  hostname: string,
+  port: number,
+  protocol: "http" | "https" = "http"
+) {
+  if (hostname === "0.0.0.0" || hostname === "::") {
+    return `${protocol}://localhost:${port}`;
+  }
+  const host = hostname.includes(":") ? `[${hostname}]` : hostname;
+  return `${protocol}://${host}:${port}`;
+}
+
+export function printVersion(info: HelpInfo) {
+  console.log(`${info.appName} ${info.appVersion}`);
+}
+
+export function printHelp(info: HelpInfo) {
+  const lines = [
+    `${colors.bright}${info.appName}${colors.reset} ${colors.dim}v${info.appVersion}${colors.reset}`,
+    "",
+    `${colors.bright}Usage:${colors.reset} ./${info.binaryName} [options]`,
+    "",
+    `${colors.bright}Options:${colors.reset}`,
+  ];
+
+  const width = Math.max(...FLAGS.map((flag) => flag.usage.length)) + 2;
+  for (const flag of FLAGS) {
+    const env = flag.env
+      ? ` ${colors.dim}(env: ${flag.env})${colors.reset}`
+      : "";
+    lines.push(
+      `  ${colors.cyan}${flag.usage.padEnd(width)}${colors.reset}${flag.description}${env}`
+    );
+  }
+
+  const variables = Object.entries(info.env);
+  if (variables.length > 0) {
+    lines.push("", `${colors.bright}Environment:${colors.reset}`);
+    const envWidth =
+      Math.max(...variables.map(([name]) => name.length)) + 2;
+    for (const [name, spec] of variables) {
+      const description = spec.description ? `${spec.description} ` : "";
+      lines.push(
+        `  ${colors.cyan}${name.padEnd(envWidth)}${colors.reset}${description}${colors.dim}(${describeEnvVariable(spec)})${colors.reset}`
+      );
+    }
+  }
+
+  lines.push(
+    "",
+    `${colors.bright}Defaults:${colors.reset} host ${info.defaults.host}, port ${info.defaults.port}`,
+    `${colors.dim}Flags take precedence over environment variables, which take precedence over build-time defaults.${colors.reset}`
+  );
+
+  console.log(lines.join("\n"));
+}
@@ -0,0 +1,168 @@
+// Libs
+import { availableParallelism } from "node:os";
+
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  red: "\x1b[31m",
+  cyan: "\x1b[36m",
+};
+
+// Types
+interface PrimaryOptions {
+  /** Number of worker processes to keep running */
+  workers: number;
+  /** Seconds workers get to shut down before they are killed */
+  shutdownTimeout: number;
+}
+
+interface WorkerSlot {
+  id: number;
+  process: Bun.Subprocess | null;
+  startedAt: number;
+  /** Consecutive crashes, reset once a worker stays up */
+  failures: number;
+}
+
+// Set on worker processes, to the worker's number
+const WORKER_ENV = "SVELTEKIT_EXEC_WORKER";
+
+// Restart delays double on each consecutive crash, within these bounds
+const MIN_RESTART_DELAY_MS = 500;
+const MAX_RESTART_DELAY_MS = 30_000;
+// A worker up for this long is considered healthy again
+const STABLE_UPTIME_MS = 30_000;
+// Extra time given to workers past their own shutdown timeout
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Resolve the number of worker processes. The --workers flag takes
+ * precedence over WORKERS, then the build-time option; "auto" uses one
+ * worker per CPU core.
+ */
+export function resolveWorkerCount(
+  flag: string | undefined,
+  buildTime: number | "auto" | undefined
+) {
+  const value = flag || process.env.WORKERS || buildTime || 1;
+  if (value === "auto") return availableParallelism();
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(
+      `Workers must be a positive integer or "auto", got "${value}"`
+    );
+  }
+  return count;
+}
+
+/**
+ * The number of this worker process, or null in the primary (or single) process
+ */
+export function getWorkerId() {
+  const id = process.env[WORKER_ENV];
+  return id ? Number(id) : null;
+}
+
+/**
+ * Shut a worker down gracefully when its primary process goes away
+ */
+export function watchPrimary() {
+  process.stdin.on("close", () => process.kill(process.pid, "SIGTERM"));
+  process.stdin.resume();
+}
+
+function log(message: string, color = colors.cyan) {
+  console.log(
+    `${colors.green}${colors.bright}[CLUSTER]${colors.reset} ${color}${message}${colors.reset}`
+  );
+}
+
+/**
+ * Run the primary process: spawn workers sharing the port through reusePort,
+ * restart crashed ones with an exponential backoff, and forward shutdown
+ * signals. Exits once every worker has stopped.
+ */
+export function runPrimary(options: PrimaryOptions): Promise<never> {
+  const slots: WorkerSlot[] = Array.from(
+    { length: options.workers },
+    (_, i) => ({ id: i + 1, process: null, startedAt: 0, failures: 0 })
+  );
+  let stopping = false;
+  let exitCode = 0;
+
+  function spawn(slot: WorkerSlot) {
+    slot.startedAt = Date.now();
+    // A compiled binary is its own executable; argv[1] is the embedded entry point
+    slot.process = Bun.spawn([process.execPath, ...process.argv.slice(2)], {
+      env: { ...process.env, [WORKER_ENV]: String(slot.id) },
+      // Workers watch their stdin to stop when the primary dies
+      stdio: ["pipe", "inherit", "inherit"],
+      // Keep Ctrl+C from reaching workers directly, the primary forwards it
+      detached: true,
+      onExit: (proc, code) => handleExit(slot, code, proc.signalCode),
+    });
+  }
+
+  function handleExit(
+    slot: WorkerSlot,
+    code: number | null,
+    signal: string | null
+  ) {
+    slot.process = null;
+
+    if (stopping) {
+      if (code !== 0) exitCode = 1;
+      if (slots.every((s) => s.process === null)) {
+        log(`All workers stopped (exit code ${exitCode})`);
+        process.exit(exitCode);
+      }
+      return;
+    }
+
+    if (Date.now() - slot.startedAt > STABLE_UPTIME_MS) slot.failures = 0;
+    const delay = Math.min(
+      MIN_RESTART_DELAY_MS * 2 ** slot.failures,
+      MAX_RESTART_DELAY_MS
+    );
+    slot.failures++;
+
+    log(
+      `Worker ${slot.id} exited (${signal ?? `code ${code}`}), restarting in ${delay}ms`,
+      colors.red
+    );
+    setTimeout(() => {
+      if (!stopping) spawn(slot);
+    }, delay);
+  }
+
+  function shutdown(signal: NodeJS.Signals) {
+    if (!stopping) {
+      stopping = true;
+      log(`Received ${signal}, stopping workers`, colors.yellow);
+      setTimeout(
+        () => {
+          log("Workers did not stop in time, killing them", colors.red);
+          for (const slot of slots) slot.process?.kill("SIGKILL");
+        },
+        options.shutdownTimeout * 1000 + KILL_GRACE_MS
+      ).unref();
+
+      if (slots.every((slot) => slot.process === null)) process.exit(0);
+    }
+
+    // A second signal is forwarded too, forcing workers to stop immediately
+    for (const slot of slots) slot.process?.kill(signal);
+  }
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+
+  log(`Starting ${options.workers} workers`);
+  slots.forEach(spawn);
+
+  return new Promise<never>(() => {});
+}
@@ -0,0 +1,109 @@
+// Types
+interface Validators {
+  etag: string;
+  /** Last modification time in milliseconds since epoch */
+  lastModified: number;
+}
+
+export type { Validators };
+
+type ByteRange = { start: number; end: number };
+
+/**
+ * Weak ETag derived from size and modification time, for files that were not
+ * hashed at build time
+ */
+export function weakEtag(size: number, lastModified: number) {
+  return `W/"${size.toString(16)}-${Math.floor(lastModified).toString(16)}"`;
+}
+
+function stripWeak(etag: string) {
+  return etag.startsWith("W/") ? etag.slice(2) : etag;
+}
+
+/**
+ * HTTP dates have second precision, so compare timestamps at that precision
+ */
+function toSeconds(ms: number) {
+  return Math.floor(ms / 1000);
+}
+
+/**
+ * Evaluate If-None-Match / If-Modified-Since (RFC 9110 §13.2.2).
+ * If-None-Match takes precedence and uses weak comparison.
+ */
+export function isNotModified(req: Request, validators: Validators) {
+  const ifNoneMatch = req.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    if (ifNoneMatch.trim() === "*") return true;
+    const etag = stripWeak(validators.etag);
+    return ifNoneMatch
+      .split(",")
+      .some((candidate) => stripWeak(candidate.trim()) === etag);
+  }
+
+  const ifModifiedSince = req.headers.get("If-Modified-Since");
+  if (ifModifiedSince !== null) {
+    const since = Date.parse(ifModifiedSince);
+    if (isNaN(since)) return false;
+    return toSeconds(validators.lastModified) <= toSeconds(since);
+  }
+
+  return false;
+}
+
+/**
+ * Whether an If-Range precondition allows a partial response.
+ * ETags must match strongly; dates must match exactly.
+ */
+function isRangeFresh(req: Request, validators: Validators) {
+  const ifRange = req.headers.get("If-Range");
+  if (ifRange === null) return true;
+
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return !validators.etag.startsWith("W/") && ifRange === validators.etag;
+  }
+
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && toSeconds(date) === toSeconds(validators.lastModified);
+}
+
+/**
+ * Parse a single-range `Range: bytes=...` header.
+ * @returns The range, "unsatisfiable" when no bytes can be served, or null
+ * when the full representation should be sent (no/ignored Range header)
+ */
+export function parseRange(
+  req: Request,
+  size: number,
+  validators: Validators
+): ByteRange | "unsatisfiable" | null {
+  const header = req.headers.get("Range");
+  if (header === null || !isRangeFresh(req, validators)) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  // Multiple ranges and other units are not supported, serve the full file
+  if (!match) return null;
+
+  const [, rawStart = "", rawEnd = ""] = match;
+  if (rawStart === "" && rawEnd === "") return null;
+
+  let start: number;
+  let end: number;
+  if (rawStart === "") {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(rawEnd);
+    if (suffixLength === 0) return "unsatisfiable";
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = Number(rawStart);
+    // An end before the start makes the header invalid, which is ignored
+    if (rawEnd !== "" && Number(rawEnd) < start) return null;
+    end = rawEnd === "" ? size - 1 : Math.min(Number(rawEnd), size - 1);
+  }
+
+  if (start >= size) return "unsatisfiable";
+
+  return { start, end };
+}
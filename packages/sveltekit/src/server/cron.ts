@@ -0,0 +1,182 @@
+// Types
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether the day of month and day of week fields were `*` */
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+export type { CronSchedule };
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: [
+      "jan",
+      "feb",
+      "mar",
+      "apr",
+      "may",
+      "jun",
+      "jul",
+      "aug",
+      "sep",
+      "oct",
+      "nov",
+      "dec",
+    ],
+  },
+  // 7 is Sunday as well as 0
+  {
+    name: "day of week",
+    min: 0,
+    max: 7,
+    names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  },
+];
+
+const ALIASES: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// Next runs are looked up this many years ahead, e.g. for "0 0 29 2 *"
+const MAX_YEARS_AHEAD = 8;
+
+function parseValue(text: string, field: CronField) {
+  const index = field.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = index >= 0 ? index + field.min : Number(text);
+  if (!/^\w+$/.test(text) || !Number.isInteger(value)) {
+    throw new Error(`"${text}" is not a valid ${field.name}`);
+  }
+  if (value < field.min || value > field.max) {
+    throw new Error(
+      `${field.name} must be from ${field.min} to ${field.max}, got ${value}`
+    );
+  }
+  return value;
+}
+
+function parseField(text: string, field: CronField) {
+  const values = new Set<number>();
+
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/") as [string, string?];
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`"${stepText}" is not a valid step`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== "*") {
+      const [from, to] = range.split("-") as [string, string?];
+      start = parseValue(from, field);
+      // "5/15" means from 5 to the end of the range
+      end =
+        to !== undefined
+          ? parseValue(to, field)
+          : stepText !== undefined
+            ? field.max
+            : start;
+      if (end < start) throw new Error(`"${range}" is an empty range`);
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression: minute, hour, day of month, month and day of
+ * week, with `*`, lists, ranges, steps and month/day names, or an alias
+ * such as `@daily`. As in Vixie cron, a day matching either the day of
+ * month or the day of week runs the task when both are restricted.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] ?? expression;
+  const parts = normalized.trim().split(/\s+/);
+
+  try {
+    if (parts.length !== FIELDS.length) {
+      throw new Error(`expected ${FIELDS.length} fields, got ${parts.length}`);
+    }
+    const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+      parseField(part, FIELDS[i]!)
+    ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+    if (weekdays.delete(7)) weekdays.add(0);
+    return {
+      minutes,
+      hours,
+      days,
+      months,
+      weekdays,
+      anyDay: parts[2]!.startsWith("*"),
+      anyWeekday: parts[4]!.startsWith("*"),
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid cron expression "${expression}": ${(error as Error).message}`
+    );
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.anyDay && schedule.anyWeekday) return true;
+  if (schedule.anyDay) return weekday;
+  if (schedule.anyWeekday) return day;
+  return day || weekday;
+}
+
+/**
+ * Next time a schedule runs after the given date, in local time
+ * @returns null when the schedule never runs, e.g. "0 0 31 2 *"
+ */
+export function getNextRun(schedule: CronSchedule, after: Date) {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const lastYear = date.getFullYear() + MAX_YEARS_AHEAD;
+
+  while (date.getFullYear() <= lastYear) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
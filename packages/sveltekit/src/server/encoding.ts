@@ -0,0 +1,66 @@
+// Types
+export type Encoding = "br" | "gzip";
+
+// Supported encodings, most preferred first
+export const ENCODINGS: Encoding[] = ["br", "gzip"];
+
+export const ENCODING_SUFFIXES: Record<Encoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+
+/**
+ * Parse an Accept-Encoding header into a map of coding to quality value
+ */
+function parseAcceptEncoding(header: string) {
+  const qualities = new Map<string, number>();
+
+  for (const part of header.split(",")) {
+    const [coding, ...params] = part.trim().toLowerCase().split(";");
+    if (!coding) continue;
+
+    let quality = 1;
+    for (const param of params) {
+      const [key, value] = param.trim().split("=");
+      if (key === "q") quality = Number(value) || 0;
+    }
+    qualities.set(coding, quality);
+  }
+
+  return qualities;
+}
+
+/**
+ * Pick the best encoding among the available variants for a request.
+ * Returns null when the identity (uncompressed) response should be sent.
+ */
+export function negotiateEncoding(
+  acceptEncoding: string | null,
+  available: Encoding[]
+): Encoding | null {
+  if (!acceptEncoding || available.length === 0) return null;
+
+  const qualities = parseAcceptEncoding(acceptEncoding);
+  const wildcard = qualities.get("*");
+
+  let best: Encoding | null = null;
+  let bestQuality = 0;
+
+  for (const encoding of ENCODINGS) {
+    if (!available.includes(encoding)) continue;
+
+    // "x-gzip" is an alias of gzip (RFC 9110)
+    const quality =
+      qualities.get(encoding) ??
+      (encoding === "gzip" ? qualities.get("x-gzip") : undefined) ??
+      wildcard ??
+      0;
+
+    if (quality > bestQuality) {
+      best = encoding;
+      bestQuality = quality;
+    }
+  }
+
+  return best;
+}
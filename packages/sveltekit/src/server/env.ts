@@ -0,0 +1,170 @@
+// Libs
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, extname, join, resolve } from "node:path";
+
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  blue: "\x1b[34m",
+  cyan: "\x1b[36m",
+};
+
+// Types
+type EnvRecord = Record<string, string>;
+
+// Config files looked up next to the binary when --config is not given
+const CONFIG_FILE_NAMES = ["app.config.json", "app.config.toml"];
+
+// Suffix of variables holding the path of a file with the actual value
+const FILE_SUFFIX = "_FILE";
+
+// Secrets of the binary itself that can be read from a NAME_FILE
+const SECRET_VARIABLES = [
+  "AUTH_TOKEN",
+  "AUTH_USERS",
+  "METRICS_TOKEN",
+  "TLS_PASSPHRASE",
+];
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t" };
+
+/**
+ * Parse a .env file: KEY=value lines, with optional `export`, quotes and comments
+ */
+export function parseDotenv(content: string, fileName = ".env"): EnvRecord {
+  const env: EnvRecord = {};
+  const pattern =
+    /^\s*(?:export\s+)?([\w.-]+)\s*=\s*("(?:\\.|[^"\\])*"|'[^']*'|(?:[^\s"'][^\n]*?)?)\s*(?:\s#.*)?$/;
+
+  // Double-quoted values may span several lines
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i]!;
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    while (
+      /^[^=]*=\s*"/.test(line) &&
+      !/^[^=]*=\s*"(?:\\.|[^"\\])*"/.test(line) &&
+      i < lines.length - 1
+    ) {
+      line += "\n" + lines[++i];
+    }
+
+    const match = pattern.exec(line);
+    if (!match) {
+      throw new Error(`${fileName}:${i + 1}: expected KEY=value`);
+    }
+
+    const [, key, raw] = match as unknown as [string, string, string];
+    if (raw.startsWith('"')) {
+      env[key] = raw
+        .slice(1, -1)
+        .replace(/\\(.)/g, (_, char: string) => ESCAPES[char] ?? char);
+    } else if (raw.startsWith("'")) {
+      env[key] = raw.slice(1, -1);
+    } else {
+      env[key] = raw;
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Read a JSON or TOML config file of flat `KEY: value` pairs
+ */
+function readConfigFile(filePath: string): EnvRecord {
+  const content = readFileSync(filePath, "utf-8");
+  let data: unknown;
+  try {
+    data =
+      extname(filePath) === ".toml"
+        ? Bun.TOML.parse(content)
+        : JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error(`Config file ${filePath} must contain an object`);
+  }
+
+  const env: EnvRecord = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (
+      typeof value !== "string" &&
+      typeof value !== "number" &&
+      typeof value !== "boolean"
+    ) {
+      throw new Error(
+        `Config file ${filePath}: "${key}" must be a string, number or boolean`
+      );
+    }
+    env[key] = String(value);
+  }
+  return env;
+}
+
+/**
+ * Load runtime configuration into process.env, without overriding variables
+ * that are already set. Precedence, highest first:
+ * 1. the real environment
+ * 2. `.env` next to the binary
+ * 3. the config file given with --config, or `app.config.json`/`.toml` next to the binary
+ * Then, for every `NAME_FILE` variable whose `NAME` is still unset, `NAME`
+ * is read from that file (the Docker secrets convention). Only declared
+ * variables and the binary's own secrets are read this way: hosts set
+ * unrelated ones, such as SSL_CERT_FILE.
+ * @param declared - Variables of the app's `env` schema
+ */
+export function loadRuntimeEnv(configFlag?: string, declared: string[] = []) {
+  const binaryDir = dirname(process.execPath);
+  const loaded: string[] = [];
+  const layers: EnvRecord[] = [];
+
+  const dotenvPath = join(binaryDir, ".env");
+  if (existsSync(dotenvPath)) {
+    layers.push(parseDotenv(readFileSync(dotenvPath, "utf-8"), dotenvPath));
+    loaded.push(dotenvPath);
+  }
+
+  const configPath = configFlag
+    ? resolve(configFlag)
+    : CONFIG_FILE_NAMES.map((name) => join(binaryDir, name)).find((path) =>
+        existsSync(path)
+      );
+  if (configPath) {
+    if (!existsSync(configPath)) {
+      throw new Error(`Config file ${configPath} does not exist`);
+    }
+    layers.push(readConfigFile(configPath));
+    loaded.push(configPath);
+  }
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (process.env[key] === undefined) process.env[key] = value;
+    }
+  }
+
+  for (const name of new Set([...declared, ...SECRET_VARIABLES])) {
+    const key = `${name}${FILE_SUFFIX}`;
+    const filePath = process.env[key];
+    if (!filePath || process.env[name] !== undefined) continue;
+
+    try {
+      process.env[name] = readFileSync(filePath, "utf-8").replace(/\r?\n$/, "");
+    } catch (error) {
+      throw new Error(
+        `Cannot read ${key} (${filePath}): ${(error as Error).message}`
+      );
+    }
+  }
+
+  if (loaded.length > 0) {
+    console.log(
+      `${colors.blue}${colors.bright}[CONFIG]${colors.reset} ${colors.cyan}Loaded ${loaded.join(", ")}${colors.reset}`
+    );
+  }
+}
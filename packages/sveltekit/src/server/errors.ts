@@ -0,0 +1,156 @@
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+};
+
+// Types
+interface ErrorConfig {
+  /** HTML template with %sveltekit.status% and %sveltekit.error.message% placeholders */
+  page: string;
+  /** Include the error message and stack in responses */
+  debug: boolean;
+}
+
+export type { ErrorConfig };
+
+interface BuildTimeErrors {
+  page?: string | null;
+  debug?: boolean;
+}
+
+// Used when the app has no error template
+const DEFAULT_ERROR_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>%sveltekit.status%</title>
+  </head>
+  <body>
+    <h1>%sveltekit.status%</h1>
+    <p>%sveltekit.error.message%</p>
+  </body>
+</html>
+`;
+
+/**
+ * Resolve error handling settings. DEBUG_ERRORS (on/off) takes precedence
+ * over the build-time `debugErrors` option.
+ */
+export function resolveErrorConfig(buildTime: BuildTimeErrors): ErrorConfig {
+  const value = process.env.DEBUG_ERRORS?.trim().toLowerCase();
+  let debug = buildTime.debug ?? false;
+  if (value === "on" || value === "true") debug = true;
+  else if (value === "off" || value === "false") debug = false;
+  else if (value) {
+    throw new Error(`DEBUG_ERRORS must be on or off, got "${value}"`);
+  }
+
+  return { page: buildTime.page || DEFAULT_ERROR_PAGE, debug };
+}
+
+function getStatus(error: unknown) {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === "number" && status >= 400 && status <= 599
+    ? status
+    : 500;
+}
+
+function getMessage(error: unknown) {
+  const body = (error as { body?: { message?: unknown } })?.body;
+  if (typeof body?.message === "string") return body.message;
+  return error instanceof Error ? error.message : String(error);
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Whether the client prefers HTML over JSON, based on Accept q-values
+ */
+function prefersHtml(accept: string | null) {
+  if (!accept) return false;
+
+  let html = 0;
+  let json = 0;
+  for (const part of accept.split(",")) {
+    const [type, ...params] = part.trim().toLowerCase().split(";");
+    const qParam = params.find((param) => param.trim().startsWith("q="));
+    const q = qParam ? Number(qParam.trim().slice(2)) || 0 : 1;
+
+    if (type === "text/html") html = Math.max(html, q);
+    else if (type === "application/json") json = Math.max(json, q);
+  }
+  return html > 0 && html >= json;
+}
+
+/**
+ * Log an unhandled error with its stack
+ * @param source - The failed request, or a description of where the error was thrown
+ */
+export function logError(
+  error: unknown,
+  source?: Request | string,
+  requestId?: string
+) {
+  const details =
+    error instanceof Error ? (error.stack ?? error.message) : String(error);
+  const request =
+    source instanceof Request
+      ? `${source.method} ${new URL(source.url).pathname}`
+      : (source ?? "Unhandled error");
+  const context = requestId ? ` ${colors.dim}(${requestId})${colors.reset}` : "";
+
+  console.error(
+    `${colors.red}${colors.bright}[ERROR]${colors.reset} ${colors.red}${request}${colors.reset}${context}\n${details}`
+  );
+}
+
+/**
+ * Build the response for an unhandled error: the error page for browsers,
+ * JSON for API clients. Details are only exposed in debug mode.
+ */
+export function renderError(
+  req: Request | null,
+  error: unknown,
+  config: ErrorConfig,
+  requestId?: string
+) {
+  const status = getStatus(error);
+  const message =
+    config.debug || status < 500 ? getMessage(error) : "Internal Error";
+  const stack =
+    config.debug && error instanceof Error ? error.stack : undefined;
+  const headers = { "Cache-Control": "no-store" };
+
+  if (!prefersHtml(req?.headers.get("Accept") ?? null)) {
+    return Response.json(
+      { status, message, ...(requestId ? { requestId } : {}), stack },
+      { status, headers }
+    );
+  }
+
+  // Replacer functions keep patterns such as $& in messages from expanding
+  let html = config.page
+    .replaceAll("%sveltekit.status%", String(status))
+    .replaceAll("%sveltekit.error.message%", () => escapeHtml(message));
+  if (stack) {
+    const details = `<pre>${escapeHtml(stack)}</pre>`;
+    html = html.includes("</body>")
+      ? html.replace("</body>", () => `${details}\n</body>`)
+      : html + details;
+  }
+
+  return new Response(html, {
+    status,
+    headers: { ...headers, "Content-Type": "text/html; charset=utf-8" },
+  });
+}
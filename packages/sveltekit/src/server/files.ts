@@ -0,0 +1,69 @@
+// Libs
+import { realpathSync } from "node:fs";
+import { realpath, stat } from "node:fs/promises";
+import { join, sep } from "node:path";
+
+// Types
+/**
+ * Where static files are looked up:
+ * - `embedded`: only files embedded in the binary, the disk is never read
+ * - `override`: files on disk first, so they can replace embedded ones
+ * - `external`: only files on disk
+ */
+export type AssetResolution = "embedded" | "override" | "external";
+
+const ASSET_RESOLUTIONS: AssetResolution[] = ["embedded", "override", "external"];
+
+/**
+ * Resolve the asset resolution policy. ASSET_RESOLUTION takes precedence
+ * over the build-time `assetResolution` option.
+ */
+export function resolveAssetResolution(
+  buildTime: AssetResolution
+): AssetResolution {
+  const value = process.env.ASSET_RESOLUTION?.trim().toLowerCase();
+  if (!value) return buildTime;
+  if (!ASSET_RESOLUTIONS.includes(value as AssetResolution)) {
+    throw new Error(
+      `ASSET_RESOLUTION must be one of ${ASSET_RESOLUTIONS.join(", ")}, got "${value}"`
+    );
+  }
+  return value as AssetResolution;
+}
+
+function isInside(root: string, target: string) {
+  return target.startsWith(root + sep);
+}
+
+/**
+ * Create a lookup of files below the given directories. Roots are resolved
+ * to their canonical path once; a file is only returned if its own
+ * canonical path, symlinks followed, is still inside its root.
+ * Directories that do not exist are skipped.
+ */
+export function createDiskResolver(directories: string[]) {
+  const roots = directories.flatMap((directory) => {
+    try {
+      return [realpathSync(directory)];
+    } catch {
+      return [];
+    }
+  });
+
+  return async (pathname: string) => {
+    if (pathname.includes("\0")) return null;
+
+    for (const root of roots) {
+      // join() normalizes "..", the check below catches what is left outside
+      const candidate = join(root, pathname);
+      if (!isInside(root, candidate)) continue;
+
+      const target = await realpath(candidate).catch(() => null);
+      if (!target || !isInside(root, target)) continue;
+
+      const stats = await stat(target).catch(() => null);
+      if (stats?.isFile()) return Bun.file(target);
+    }
+    return null;
+  };
+}
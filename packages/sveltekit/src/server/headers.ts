@@ -0,0 +1,84 @@
+// Libs
+import { matchPath } from "./patterns";
+
+// Types
+/** Header values to set, or null to remove a header */
+type HeaderSet = Record<string, string | null>;
+
+type HeaderPreset = keyof typeof PRESETS;
+
+/** Rules applied in order, later rules overriding earlier ones */
+type HeaderRules = Array<[string, HeaderSet]>;
+
+export type { HeaderSet, HeaderRules };
+
+const PRESETS = {
+  secure: {
+    "Strict-Transport-Security": "max-age=31536000; includeSubDomains",
+    "X-Content-Type-Options": "nosniff",
+    "Referrer-Policy": "strict-origin-when-cross-origin",
+    "Permissions-Policy": "camera=(), microphone=(), geolocation=()",
+    "X-Frame-Options": "SAMEORIGIN",
+  },
+} satisfies Record<string, HeaderSet>;
+
+/**
+ * Expand presets in the build-time header rules
+ */
+export function resolveHeaderRules(
+  buildTime: Array<[string, HeaderSet | string]>
+): HeaderRules {
+  return buildTime.map(([pattern, headers]) => {
+    if (typeof headers !== "string") return [pattern, headers];
+    if (!(headers in PRESETS)) {
+      throw new Error(
+        `Unknown header preset "${headers}" for "${pattern}", expected one of ${Object.keys(PRESETS).join(", ")}`
+      );
+    }
+    return [pattern, PRESETS[headers as HeaderPreset]];
+  });
+}
+
+/**
+ * Merge the headers of every rule matching a path
+ */
+export function getPathHeaders(pathname: string, rules: HeaderRules) {
+  const headers: HeaderSet = {};
+  for (const [pattern, set] of rules) {
+    if (matchPath(pattern, pathname)) Object.assign(headers, set);
+  }
+  return headers;
+}
+
+/**
+ * Set a header set on a Headers object. Unless `override` is set, headers
+ * already present (e.g. set by the app) are kept.
+ */
+export function mergeHeaders(
+  target: Headers,
+  headers: HeaderSet,
+  override: boolean
+) {
+  for (const [name, value] of Object.entries(headers)) {
+    if (!override && target.has(name)) continue;
+    if (value === null) target.delete(name);
+    else target.set(name, value);
+  }
+}
+
+/**
+ * Apply a header set to a response, without overriding the app's headers.
+ * Responses with immutable headers (e.g. from Response.redirect) are copied.
+ */
+export function applyHeaders(response: Response, headers: HeaderSet) {
+  if (Object.keys(headers).length === 0) return response;
+
+  try {
+    mergeHeaders(response.headers, headers, false);
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    mergeHeaders(copy.headers, headers, false);
+    return copy;
+  }
+}
@@ -0,0 +1,133 @@
+// Types
+type HealthCheck = () => unknown | Promise<unknown>;
+
+interface HealthConfig {
+  /** Path answering liveness probes, null when disabled */
+  livenessPath: string | null;
+  /** Path answering readiness probes, null when disabled */
+  readinessPath: string | null;
+}
+
+export type { HealthCheck, HealthConfig };
+
+interface BuildTimeHealth {
+  livenessPath?: string;
+  readinessPath?: string;
+}
+
+export const DEFAULT_LIVENESS_PATH = "/__health";
+export const DEFAULT_READINESS_PATH = "/__ready";
+
+// A check that does not settle in time counts as failed
+const CHECK_TIMEOUT_MS = 5000;
+
+// Variables
+let ready = false;
+
+/**
+ * Mark the app as ready to receive traffic, once the SvelteKit server is initialized
+ */
+export function markReady() {
+  ready = true;
+}
+
+/**
+ * Resolve the health endpoint paths. HEALTH_PATH and READY_PATH take
+ * precedence over the build-time options; "off" disables an endpoint.
+ */
+export function resolveHealthConfig(
+  buildTime: BuildTimeHealth | false | undefined
+): HealthConfig {
+  if (buildTime === false) return { livenessPath: null, readinessPath: null };
+
+  const resolvePath = (envValue: string | undefined, fallback: string) => {
+    const value = envValue?.trim() || fallback;
+    if (value === "off") return null;
+    if (!value.startsWith("/")) {
+      throw new Error(
+        `Health endpoint paths must start with "/", got "${value}"`
+      );
+    }
+    return value;
+  };
+
+  return {
+    livenessPath: resolvePath(
+      process.env.HEALTH_PATH,
+      buildTime?.livenessPath ?? DEFAULT_LIVENESS_PATH
+    ),
+    readinessPath: resolvePath(
+      process.env.READY_PATH,
+      buildTime?.readinessPath ?? DEFAULT_READINESS_PATH
+    ),
+  };
+}
+
+async function runCheck(check: HealthCheck) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const result = await Promise.race([
+      Promise.resolve().then(check),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`timed out after ${CHECK_TIMEOUT_MS}ms`)),
+          CHECK_TIMEOUT_MS
+        );
+      }),
+    ]);
+    return result === false ? "failed" : "ok";
+  } catch (error) {
+    return `failed: ${(error as Error)?.message ?? error}`;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function healthResponse(status: number, body: Record<string, unknown>) {
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+/**
+ * Answer liveness and readiness probes without going through SvelteKit.
+ * Readiness fails until the app is initialized, while shutting down, and
+ * when any user check throws or returns false.
+ * @returns null when the request is not a health probe
+ */
+export async function respondHealth(
+  req: Request,
+  config: HealthConfig,
+  checks: Record<string, HealthCheck>,
+  shuttingDown: boolean
+) {
+  const { pathname } = new URL(req.url);
+
+  if (pathname === config.livenessPath) {
+    return healthResponse(200, { status: "ok" });
+  }
+
+  if (pathname !== config.readinessPath) return null;
+
+  if (shuttingDown) {
+    return healthResponse(503, { status: "shutting down" });
+  }
+  if (!ready) {
+    return healthResponse(503, { status: "starting" });
+  }
+
+  const names = Object.keys(checks);
+  const results = await Promise.all(
+    names.map((name) => runCheck(checks[name]!))
+  );
+  const checkResults = Object.fromEntries(
+    names.map((name, i) => [name, results[i]])
+  );
+  const healthy = results.every((result) => result === "ok");
+
+  return healthResponse(healthy ? 200 : 503, {
+    status: healthy ? "ok" : "unavailable",
+    ...(names.length > 0 ? { checks: checkResults } : {}),
+  });
+}
@@ -9,59 +9,478 @@ const colors = {
   reset: "\x1b[0m",
   bright: "\x1b[1m",
   green: "\x1b[32m",
+  yellow: "\x1b[33m",
   blue: "\x1b[34m",
   cyan: "\x1b[36m",
 };
 
 // @ts-ignore
-import { assetMap } from "./assets.generated.ts";
+import { assetMap, assetMetadata, encodedAssetMap } from "./assets.generated.ts";
 // @ts-ignore
 import { adapterConfig } from "./config.generated.ts";
+// @ts-ignore
+import { checks as healthChecks } from "./health.generated.ts";
+// @ts-ignore
+import * as websocketHandlers from "./websockets.generated.ts";
+// @ts-ignore
+import * as lifecycleHooks from "./lifecycle.generated.ts";
+import {
+  registerShutdownHandlers,
+  resolveShutdownTimeout,
+  onShutdown,
+  isShuttingDown,
+  waitUntil,
+} from "./shutdown";
+import {
+  fail,
+  parseCliArgs,
+  resolveListenOptions,
+  formatListenUrl,
+  printHelp,
+  printVersion,
+} from "./cli";
+import {
+  negotiateEncoding,
+  ENCODINGS,
+  ENCODING_SUFFIXES,
+  type Encoding,
+} from "./encoding";
+import {
+  isNotModified,
+  parseRange,
+  weakEtag,
+  type Validators,
+} from "./conditional";
+import {
+  resolveTlsConfig,
+  loadTlsOptions,
+  watchCertificates,
+  startRedirectServer,
+  logTlsError,
+  logTlsInfo,
+  type TlsConfig,
+} from "./tls";
+import {
+  resolveProxyConfig,
+  applyProxyOrigin,
+  getProxyClientAddress,
+  type ProxyConfig,
+} from "./proxy";
+import {
+  resolveLimitsConfig,
+  checkBodySize,
+  limitRequestBody,
+  getRouteTimeouts,
+  withRequestTimeout,
+  type LimitsConfig,
+} from "./limits";
+import {
+  resolveAccessLogFormat,
+  getRequestId,
+  withHeader,
+  trackResponseSize,
+  logAccess,
+  type AccessLogFormat,
+} from "./logging";
+import {
+  resolveHealthConfig,
+  respondHealth,
+  markReady,
+  type HealthConfig,
+} from "./health";
+import {
+  resolveErrorConfig,
+  logError,
+  renderError,
+  type ErrorConfig,
+} from "./errors";
+import {
+  resolveMetricsConfig,
+  createRouteResolver,
+  requestStarted,
+  requestFinished,
+  recordStaticHit,
+  respondMetrics,
+  type MetricsConfig,
+} from "./metrics";
+import {
+  resolveSocketConfig,
+  removeStaleSocket,
+  applySocketMode,
+  removeSocket,
+  getActivationFd,
+  bridgeActivationSocket,
+  type SocketConfig,
+} from "./socket";
+import { loadRuntimeEnv } from "./env";
+import { validateEnv, printEnv } from "./variables";
+import {
+  resolveIpFilterConfig,
+  isAddressAllowed,
+  type IpFilterConfig,
+} from "./ipfilter";
+import {
+  resolveRateLimits,
+  createRateLimiter,
+  type RateLimitRules,
+} from "./ratelimit";
+import {
+  resolveAuthConfig,
+  createAuthenticator,
+  type AuthConfig,
+} from "./auth";
+import {
+  resolvePortFallback,
+  resolveSingleInstance,
+  acquireInstanceLock,
+  publishInstanceUrl,
+  releaseInstanceLock,
+  getFallbackPort,
+  getDataDir,
+  type PortFallback,
+} from "./instance";
+import { redirectLogsToStderr, printHandshake, watchParent } from "./sidecar";
+import { startSchedule, type LifecycleHooks } from "./lifecycle";
+import { createPrerenderedResolver } from "./prerendered";
+import {
+  resolveAssetResolution,
+  createDiskResolver,
+  type AssetResolution,
+} from "./files";
+import {
+  resolveHeaderRules,
+  getPathHeaders,
+  mergeHeaders,
+  applyHeaders,
+  type HeaderRules,
+} from "./headers";
+import { decodeRoutePath } from "./patterns";
+import {
+  resolveWorkerCount,
+  getWorkerId,
+  watchPrimary,
+  runPrimary,
+} from "./cluster";
+import {
+  hasWebSocketHandlers,
+  createWebSocketHandler,
+  closeWebSockets,
+} from "./websocket";
 
 // Types
 import type { Server as ServerType } from "@sveltejs/kit";
 import type { SSRManifest } from "@sveltejs/kit";
 
+type ListenTarget = { port: number } | { unix: string };
+
+interface StaticFile {
+  file: Bun.BunFile;
+  source: "embedded" | "disk";
+}
+
+// Handle informational flags before loading the app
+const cliArgs = parseCliArgs();
+const helpInfo = {
+  binaryName: adapterConfig.binaryName ?? "app",
+  appName: adapterConfig.appName ?? "app",
+  appVersion: adapterConfig.appVersion ?? "0.0.0",
+  defaults: {
+    port: adapterConfig.port ?? 3000,
+    host: adapterConfig.host ?? "0.0.0.0",
+  },
+  env: adapterConfig.env ?? {},
+};
+if (cliArgs.help) {
+  printHelp(helpInfo);
+  process.exit(0);
+}
+if (cliArgs.version) {
+  printVersion(helpInfo);
+  process.exit(0);
+}
+
+// Sidecars keep stdout for the handshake line
+if (cliArgs.sidecar) redirectLogsToStderr();
+
+// Config files fill in the environment before any setting is resolved
+try {
+  loadRuntimeEnv(cliArgs.config, Object.keys(helpInfo.env));
+} catch (error) {
+  fail((error as Error).message);
+}
+
+// Report every missing or malformed variable at once, before the app starts
+const envProblems = validateEnv(helpInfo.env);
+if (cliArgs.printEnv) {
+  printEnv(helpInfo.env);
+  if (envProblems.length === 0) process.exit(0);
+}
+if (envProblems.length > 0) {
+  fail(
+    `Invalid environment:\n${envProblems.map((problem) => `  - ${problem}`).join("\n")}`
+  );
+}
+const listenOptions = resolveListenOptions(cliArgs, helpInfo.defaults);
+let tlsConfig: TlsConfig | null = null;
+let proxyConfig: ProxyConfig;
+let limitsConfig: LimitsConfig;
+let accessLogFormat: AccessLogFormat | null;
+let healthConfig: HealthConfig;
+let metricsConfig: MetricsConfig | null;
+let errorConfig: ErrorConfig;
+let socketConfig: SocketConfig | null;
+let workerCount: number;
+let headerRules: HeaderRules;
+let assetResolution: AssetResolution;
+let ipFilterConfig: IpFilterConfig | null;
+let rateLimitRules: RateLimitRules | null;
+let authConfig: AuthConfig | null;
+let portFallback: PortFallback | null;
+let singleInstance: boolean;
+try {
+  tlsConfig = resolveTlsConfig(adapterConfig.tls);
+  proxyConfig = resolveProxyConfig();
+  limitsConfig = resolveLimitsConfig(adapterConfig.limits ?? {});
+  accessLogFormat = resolveAccessLogFormat(adapterConfig.accessLog);
+  healthConfig = resolveHealthConfig(adapterConfig.health);
+  metricsConfig = resolveMetricsConfig(adapterConfig.metrics);
+  errorConfig = resolveErrorConfig(adapterConfig.errors ?? {});
+  socketConfig = resolveSocketConfig(cliArgs.socket);
+  workerCount = resolveWorkerCount(cliArgs.workers, adapterConfig.workers);
+  headerRules = resolveHeaderRules(adapterConfig.headers ?? []);
+  assetResolution = resolveAssetResolution(
+    adapterConfig.assetResolution ?? "embedded"
+  );
+  ipFilterConfig = resolveIpFilterConfig(adapterConfig.ipFilter ?? {});
+  rateLimitRules = resolveRateLimits(adapterConfig.rateLimits ?? {});
+  authConfig = resolveAuthConfig(adapterConfig.auth, helpInfo.appName);
+  portFallback = resolvePortFallback(adapterConfig.portFallback ?? false);
+  singleInstance = resolveSingleInstance(adapterConfig.singleInstance ?? false);
+} catch (error) {
+  fail((error as Error).message);
+}
+
+if (cliArgs.sidecar) {
+  if (socketConfig || process.env.LISTEN_FDS) {
+    fail("Sidecar mode requires a TCP port, not a Unix socket");
+  }
+  if (workerCount > 1) fail("Sidecar mode cannot be combined with cluster mode");
+  // The parent owns the sidecar's lifetime
+  singleInstance = false;
+  portFallback = null;
+  watchParent();
+}
+
+// A second launch hands over to the running instance
+if (singleInstance) {
+  if (workerCount > 1) {
+    fail("Single-instance mode cannot be combined with cluster mode");
+  }
+  let running: Awaited<ReturnType<typeof acquireInstanceLock>>;
+  try {
+    running = await acquireInstanceLock(helpInfo.appName);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+  if (running) {
+    console.log(
+      `${colors.green}${colors.bright}[SERVER]${colors.reset} ${colors.cyan}${helpInfo.appName} is already running${running.url ? ` on ${colors.bright}${running.url}` : ` (pid ${running.pid})`}${colors.reset}`
+    );
+    if (running.url) await openInBrowser(running.url);
+    process.exit(0);
+  }
+}
+
+const workerId = getWorkerId();
+const dataDir = getDataDir(helpInfo.appName);
+const hooks = lifecycleHooks as LifecycleHooks;
+const lifecycleContext = {
+  name: helpInfo.appName,
+  version: helpInfo.appVersion,
+  workerId,
+  dataDir,
+};
+
+// In cluster mode, the primary process only supervises the workers
+if (workerId === null && workerCount > 1) {
+  if (socketConfig || process.env.LISTEN_FDS) {
+    fail("Cluster mode requires a TCP port, not a Unix socket");
+  }
+  if (listenOptions.port === 0) {
+    fail("Cluster mode requires a fixed port, workers cannot share port 0");
+  }
+  await runStartHook();
+  await runPrimary({
+    workers: workerCount,
+    shutdownTimeout: resolveShutdownTimeout(adapterConfig.shutdownTimeout ?? 30),
+  });
+}
+if (workerId !== null) watchPrimary();
+
 // Variables
 const manifest = await getSvelteKitManifest();
-const prerenderedRoutes = await getPrerenderedRoutes(manifest);
-const svelteKitServer = await instantiateServer(manifest);
+const prerendered = createPrerenderedResolver(
+  adapterConfig.prerendered ?? { pages: {}, redirects: {} }
+);
+const resolveRouteLabel = createRouteResolver(manifest);
+const buildInfo = {
+  name: helpInfo.appName,
+  version: helpInfo.appVersion,
+  adapterVersion: adapterConfig.adapterVersion ?? "unknown",
+};
+const websocketsEnabled = hasWebSocketHandlers(websocketHandlers);
+const checkRateLimit = rateLimitRules
+  ? createRateLimiter(rateLimitRules)
+  : null;
+const authenticate = authConfig ? createAuthenticator(authConfig) : null;
+// Static files on disk live next to the binary
+const getDiskFile = createDiskResolver(
+  ["client", "prerendered"].map((dir) =>
+    path.join(path.dirname(execPath), dir)
+  )
+);
+// Responses served by staticServer, to label them in metrics
+const staticResponses = new WeakSet<Response>();
+// Before the app initializes, so migrations are done when its hooks run.
+// Workers were started after the primary ran it.
+if (workerId === null) await runStartHook();
+// Not awaited: the server listens while the app initializes, so liveness
+// probes are answered and readiness reports "starting" in the meantime
+const svelteKitServer = instantiateServer(manifest);
+// Handled right away, init can fail before anything awaits it
+svelteKitServer.catch((error) => {
+  logError(error, "SvelteKit init");
+  fail("The app failed to initialize, the server was stopped");
+});
 const staticServer = {
-  respond: async (req: Request) => {
+  respond: async (req: Request, routePath: string) => {
     const url = new URL(req.url);
     const headers = new Headers({
-      "Cache-Control": "max-age=0, must-revalidate",
+      "Cache-Control": url.pathname.startsWith(`/${manifest.appDir}/immutable/`)
+        ? "public, max-age=31536000, immutable"
+        : "max-age=0, must-revalidate",
     });
+    // Configured headers override the defaults above
+    mergeHeaders(headers, getPathHeaders(routePath, headerRules), true);
 
-    if (prerenderedRoutes.includes(url.pathname)) {
-      const htmlPath =
-        url.pathname === "/" ? "/index.html" : `${url.pathname}.html`;
-      const htmlFile = await getFile(htmlPath);
+    const match = prerendered.resolve(
+      decodePathname(url.pathname) ?? url.pathname,
+      url.search
+    );
+    if (match?.type === "redirect") {
+      headers.set("Location", match.location);
+      return new Response(null, { status: match.status, headers });
+    }
+    if (match?.type === "page") {
+      const htmlFile = await getFile(match.file);
       if (htmlFile) {
-        headers.set(
-          "Content-Type",
-          htmlFile.type || "application/octet-stream"
-        );
-        return new Response(htmlFile, {
-          headers,
-        });
+        return await serveFile(req, match.file, htmlFile, headers);
       }
     }
 
     const assetFile = await getFile(url.pathname);
     if (assetFile) {
-      if (url.pathname.startsWith(`/${manifest.appDir}/immutable/`))
-        headers.set("Cache-Control", "public, max-age=31536000, immutable");
-      headers.set("Content-Type", assetFile.type || "application/octet-stream");
-      return new Response(assetFile, {
-        headers,
-      });
+      return await serveFile(req, url.pathname, assetFile, headers);
     }
 
     return null;
   },
 };
 
+async function serveFile(
+  req: Request,
+  pathname: string,
+  asset: StaticFile,
+  headers: Headers
+) {
+  if (metricsConfig) recordStaticHit(asset.source);
+
+  headers.set("Content-Type", asset.file.type || "application/octet-stream");
+  headers.set("Accept-Ranges", "bytes");
+
+  let body = asset.file;
+  let encoding: Encoding | null = null;
+
+  if (adapterConfig.precompress) {
+    const variants = await getCompressedVariants(pathname, asset.source);
+    const available = Object.keys(variants) as Encoding[];
+
+    if (available.length > 0) {
+      headers.append("Vary", "Accept-Encoding");
+      // Byte ranges are served from the uncompressed representation only
+      if (!req.headers.has("Range")) {
+        encoding = negotiateEncoding(
+          req.headers.get("Accept-Encoding"),
+          available
+        );
+      }
+      if (encoding) {
+        headers.set("Content-Encoding", encoding);
+        body = variants[encoding]!;
+      }
+    }
+  }
+
+  const validators = getValidators(pathname, asset.source, body, encoding);
+  headers.set("ETag", validators.etag);
+  headers.set("Last-Modified", new Date(validators.lastModified).toUTCString());
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response(body, { headers });
+  }
+
+  if (isNotModified(req, validators)) {
+    headers.delete("Content-Type");
+    headers.delete("Content-Encoding");
+    return new Response(null, { status: 304, headers });
+  }
+
+  if (!encoding) {
+    const range = parseRange(req, body.size, validators);
+    if (range === "unsatisfiable") {
+      headers.set("Content-Range", `bytes */${body.size}`);
+      return new Response(null, { status: 416, headers });
+    }
+    if (range) {
+      headers.set(
+        "Content-Range",
+        `bytes ${range.start}-${range.end}/${body.size}`
+      );
+      headers.set("Content-Length", String(range.end - range.start + 1));
+      return new Response(body.slice(range.start, range.end + 1), {
+        status: 206,
+        headers,
+      });
+    }
+  }
+
+  headers.set("Content-Length", String(body.size));
+  return new Response(body, { headers });
+}
+
+function getValidators(
+  pathname: string,
+  source: StaticFile["source"],
+  body: Bun.BunFile,
+  encoding: Encoding | null
+): Validators {
+  // Embedded assets were hashed at build time, files on disk get a weak ETag
+  const metadata =
+    source === "embedded"
+      ? assetMetadata.get(decodePathname(pathname) ?? "")
+      : undefined;
+  if (metadata) {
+    return {
+      etag: `"${metadata.hash}${encoding ? `-${encoding}` : ""}"`,
+      lastModified: metadata.lastModified,
+    };
+  }
+  return {
+    etag: weakEtag(body.size, body.lastModified),
+    lastModified: body.lastModified,
+  };
+}
+
 async function getSvelteKitManifest() {
   // @ts-ignore
   const manifestModule = await import("../manifest.js");
@@ -69,10 +488,6 @@ async function getSvelteKitManifest() {
   return manifest as SSRManifest;
 }
 
-async function getPrerenderedRoutes(manifest: SSRManifest) {
-  return Array.from(manifest._.prerendered_routes);
-}
-
 async function instantiateServer(manifest: SSRManifest) {
   const serverModule = await import("../server/index.js");
   const { Server } = serverModule as {
@@ -85,7 +500,7 @@ async function instantiateServer(manifest: SSRManifest) {
   return server;
 }
 
-async function getFile(pathname: string) {
+function decodePathname(pathname: string) {
   let decodedPathname: string;
   try {
     decodedPathname = decodeURIComponent(pathname);
@@ -95,66 +510,552 @@ async function getFile(pathname: string) {
   } catch (error) {
     decodedPathname = pathname;
   }
+  return decodedPathname;
+}
+
+async function getCompressedVariants(
+  pathname: string,
+  source: StaticFile["source"]
+) {
+  const variants: Partial<Record<Encoding, Bun.BunFile>> = {};
+  const decodedPathname = decodePathname(pathname);
+  if (decodedPathname === null) return variants;
+
+  // Variants come from the same place as the file itself: embedded ones are
+  // known at build time, otherwise look next to the file on disk
+  const embedded = encodedAssetMap.get(decodedPathname);
+  for (const encoding of ENCODINGS) {
+    if (source === "embedded") {
+      if (embedded?.[encoding]) variants[encoding] = file(embedded[encoding]);
+    } else {
+      const variant = await getDiskFile(
+        decodedPathname + ENCODING_SUFFIXES[encoding]
+      );
+      if (variant) variants[encoding] = variant;
+    }
+  }
+
+  return variants;
+}
 
-  // Search in embedded assetMap
-  if (assetMap.has(decodedPathname)) return file(assetMap.get(decodedPathname));
+async function getFile(pathname: string): Promise<StaticFile | null> {
+  const decodedPathname = decodePathname(pathname);
+  if (decodedPathname === null) return null;
 
-  // Search on disk
-  const binaryDir = path.dirname(execPath);
-  const staticBuildDirs = ["client", "prerendered"];
+  // With "override", files on disk replace embedded ones
+  if (assetResolution !== "embedded") {
+    const diskFile = await getDiskFile(decodedPathname);
+    if (diskFile) return { file: diskFile, source: "disk" };
+  }
 
-  for (const dir of staticBuildDirs) {
-    const externalFile = file(path.join(binaryDir, dir, decodedPathname));
-    if (await externalFile.exists()) return externalFile;
+  if (assetResolution !== "external" && assetMap.has(decodedPathname)) {
+    return { file: file(assetMap.get(decodedPathname)), source: "embedded" };
   }
+
+  return null;
 }
 
-const server = Bun.serve({
-  port: process.env.PORT ? parseInt(process.env.PORT) : 3000,
-  hostname: "0.0.0.0",
-  async fetch(req: Request, bunServer: Bun.Server<unknown>) {
-    // Handle static assets
-    const staticResponse = await staticServer.respond(req);
-    if (staticResponse) return staticResponse;
+function getClientAddress(req: Request, bunServer: Bun.Server<unknown>) {
+  // requestIP only knows the original request object
+  const socketAddress = bunServer.requestIP(req)?.address || "127.0.0.1";
+  return getProxyClientAddress(req, proxyConfig, socketAddress);
+}
+
+async function handleRequest(
+  req: Request,
+  bunServer: Bun.Server<unknown>,
+  requestId: string,
+  routePath: string | null
+) {
+  // Answered like SvelteKit, rules cannot be matched against it
+  if (routePath === null) {
+    return new Response("Malformed URI", { status: 400 });
+  }
+
+  const tooLarge = checkBodySize(req, limitsConfig);
+  if (tooLarge) return tooLarge;
+
+  if (ipFilterConfig || checkRateLimit) {
+    const clientAddress = getClientAddress(req, bunServer);
+    if (ipFilterConfig && !isAddressAllowed(clientAddress, ipFilterConfig)) {
+      return new Response("Forbidden", { status: 403 });
+    }
+    const retryAfter = checkRateLimit?.(routePath, clientAddress);
+    if (retryAfter) {
+      return new Response("Too Many Requests", {
+        status: 429,
+        headers: { "Retry-After": String(retryAfter) },
+      });
+    }
+  }
+
+  // Covers static files and prerendered pages as well as the app
+  const unauthorized = await authenticate?.(req, routePath);
+  if (unauthorized) return unauthorized;
+
+  const timeouts = getRouteTimeouts(routePath, limitsConfig);
+  if (timeouts.idleTimeout !== undefined) {
+    bunServer.timeout(req, timeouts.idleTimeout);
+  }
 
-    // Handle other routes (SSR, API endpoints, etc.)
-    return await svelteKitServer.respond(req, {
-      getClientAddress() {
-        return bunServer.requestIP(req)?.address || "127.0.0.1";
+  // Handle static assets
+  const staticResponse = await staticServer.respond(req, routePath);
+  if (staticResponse) {
+    staticResponses.add(staticResponse);
+    return staticResponse;
+  }
+
+  // Handle other routes (SSR, API endpoints, etc.)
+  let upgraded = false;
+  const response = (await svelteKitServer).respond(
+    applyProxyOrigin(limitRequestBody(req, limitsConfig), proxyConfig),
+    {
+      getClientAddress: () => getClientAddress(req, bunServer),
+      platform: {
+        server: bunServer,
+        request: req,
+        requestId,
+        dataDir,
+        build: buildInfo,
+        waitUntil,
+        // Bun can only upgrade the original request object
+        upgrade(data?: unknown) {
+          if (!websocketsEnabled) return false;
+          upgraded = bunServer.upgrade(req, {
+            data,
+            headers: { "X-Request-Id": requestId },
+          });
+          return upgraded;
+        },
+        publish(topic: string, message: string | ArrayBuffer | Uint8Array) {
+          return bunServer.publish(topic, message);
+        },
       },
-    });
-  },
-  error(e: Error) {
-    return Response.json(
-      {
-        code: 500,
-        message: "Something went wrong",
+    }
+  );
+  const result = await withRequestTimeout(response, timeouts.requestTimeout);
+
+  // The endpoint's response is discarded once the connection is upgraded
+  return upgraded ? undefined : result;
+}
+
+function logRequest(
+  req: Request,
+  bunServer: Bun.Server<unknown>,
+  requestId: string,
+  start: number,
+  status: number,
+  bytes: number | null
+) {
+  let clientAddress: string;
+  try {
+    clientAddress = getClientAddress(req, bunServer);
+  } catch {
+    clientAddress = bunServer.requestIP(req)?.address || "-";
+  }
+
+  logAccess(accessLogFormat!, {
+    requestId,
+    method: req.method,
+    url: new URL(req.url),
+    status,
+    duration: performance.now() - start,
+    bytes,
+    clientAddress,
+    userAgent: req.headers.get("User-Agent"),
+    referer: req.headers.get("Referer"),
+  });
+}
+
+function recordRequestMetrics(
+  req: Request,
+  response: Response | undefined,
+  start: number
+) {
+  const { pathname } = new URL(req.url);
+  const route =
+    response &&
+    staticResponses.has(response) &&
+    !prerendered.has(decodePathname(pathname) ?? pathname)
+      ? "static"
+      : resolveRouteLabel(pathname);
+
+  requestFinished(
+    { route, method: req.method, status: String(response?.status ?? 101) },
+    (performance.now() - start) / 1000
+  );
+}
+
+/**
+ * Run the onStart hook before any connection is accepted, e.g. for
+ * migrations. In cluster mode, it runs once in the primary process.
+ */
+async function runStartHook() {
+  if (!hooks.onStart) return;
+  try {
+    await hooks.onStart(lifecycleContext);
+  } catch (error) {
+    logError(error, "onStart hook");
+    fail("The onStart hook failed, the server was not started");
+  }
+}
+
+/**
+ * Start the server, moving to another port when the port is taken and a
+ * fallback is configured
+ */
+function listen(target: ListenTarget, tls?: Bun.TLSOptions) {
+  if ("unix" in target) return startServer(target, tls);
+
+  let port = target.port;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      // TLS listeners set reusePort to swap certificates, which would let
+      // them share a port taken by another process without an error
+      if (tlsConfig && workerId === null && port !== 0) probePort(port);
+      return startServer({ port }, tls);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EADDRINUSE") throw error;
+      // Workers share their port on purpose, so they never move
+      if (!portFallback || port === 0 || workerId !== null) {
+        throw new Error(
+          `Port ${port} is already in use. Choose another one with --port or PORT.`
+        );
+      }
+
+      const next = getFallbackPort(port, portFallback, attempt);
+      console.log(
+        `${colors.yellow}${colors.bright}[SERVER]${colors.reset} ${colors.yellow}Port ${port} is in use, trying ${next === 0 ? "a random port" : `port ${next}`}${colors.reset}`
+      );
+      port = next;
+    }
+  }
+}
+
+/**
+ * Bind a port without reusePort and release it, throwing EADDRINUSE when
+ * it is taken
+ */
+function probePort(port: number) {
+  Bun.serve({
+    port,
+    hostname: listenOptions.hostname,
+    fetch: () => new Response(null),
+  }).stop(true);
+}
+
+function startServer(target: ListenTarget, tls?: Bun.TLSOptions) {
+  const options = {
+    tls,
+    websocket: createWebSocketHandler(websocketHandlers),
+    maxRequestBodySize: Number.isFinite(limitsConfig.bodySizeLimit)
+      ? limitsConfig.bodySizeLimit
+      : Number.MAX_SAFE_INTEGER,
+    async fetch(req: Request, bunServer: Bun.Server<unknown>) {
+      // Health probes skip logging and the app entirely
+      const healthResponse = await respondHealth(
+        req,
+        healthConfig,
+        healthChecks ?? {},
+        isShuttingDown()
+      );
+      if (healthResponse) return healthResponse;
+
+      if (metricsConfig && metricsConfig.port === undefined) {
+        // Without a token of their own, metrics served on the app's port
+        // need the same credentials as the app
+        const { pathname } = new URL(req.url);
+        if (pathname === metricsConfig.path && !metricsConfig.token) {
+          const unauthorized = await authenticate?.(req, pathname);
+          if (unauthorized) return unauthorized;
+        }
+        const metricsResponse = respondMetrics(req, metricsConfig, buildInfo);
+        if (metricsResponse) return metricsResponse;
+      }
+
+      const start = performance.now();
+      const requestId = getRequestId(req);
+      if (metricsConfig) requestStarted();
+
+      // Rules match the path SvelteKit routes on, e.g. /ap%69 as /api
+      const routePath = decodeRoutePath(new URL(req.url).pathname);
+      let response: Response | undefined;
+      try {
+        response = await handleRequest(req, bunServer, requestId, routePath);
+      } catch (error) {
+        logError(error, req, requestId);
+        response = renderError(req, error, errorConfig, requestId);
+      }
+      if (metricsConfig) recordRequestMetrics(req, response, start);
+
+      // Upgraded to a WebSocket
+      if (!response) {
+        if (accessLogFormat) {
+          logRequest(req, bunServer, requestId, start, 101, null);
+        }
+        return undefined;
+      }
+
+      // Static responses already carry the configured headers
+      if (!staticResponses.has(response) && routePath !== null) {
+        response = applyHeaders(
+          response,
+          getPathHeaders(routePath, headerRules)
+        );
+      }
+
+      response = withHeader(response, "X-Request-Id", requestId);
+      if (!accessLogFormat) return response;
+
+      return trackResponseSize(response, (bytes) =>
+        logRequest(req, bunServer, requestId, start, response.status, bytes)
+      );
+    },
+    // Last resort for errors thrown outside of request handling
+    error(e: Error) {
+      logError(e);
+      return renderError(null, e, errorConfig);
+    },
+  };
+
+  return "unix" in target
+    ? Bun.serve({ ...options, unix: target.unix })
+    : Bun.serve({
+        ...options,
+        port: target.port,
+        hostname: listenOptions.hostname,
+        // Workers share the port, the kernel balances connections between
+        // them. A certificate reload also binds next to the current listener.
+        reusePort: workerId !== null || tlsConfig !== null,
+        // Bun only supports idle timeouts on TCP listeners
+        idleTimeout: limitsConfig.idleTimeout,
+      });
+}
+
+let tlsOptions: Bun.TLSOptions | undefined;
+try {
+  tlsOptions = tlsConfig ? loadTlsOptions(tlsConfig) : undefined;
+} catch (error) {
+  fail((error as Error).message);
+}
+
+// A socket passed by systemd takes precedence over --socket and --port
+const activationFd = getActivationFd();
+// Connections reach the server through a bridge, which hides their address
+if (activationFd !== null && !proxyConfig.addressHeader) {
+  fail(
+    "Socket activation requires ADDRESS_HEADER, client addresses are lost on the way to the server"
+  );
+}
+const activation =
+  activationFd === null ? null : bridgeActivationSocket(activationFd);
+const listenTarget: ListenTarget = activation
+  ? { unix: activation.target }
+  : socketConfig
+    ? { unix: socketConfig.path }
+    : { port: listenOptions.port };
+
+let server: Bun.Server<unknown>;
+try {
+  if (socketConfig && !activation) await removeStaleSocket(socketConfig.path);
+  server = listen(listenTarget, tlsOptions);
+  if (socketConfig && !activation) applySocketMode(socketConfig);
+} catch (error) {
+  fail((error as Error).message);
+}
+if (activation) {
+  onShutdown(activation.close);
+} else if (socketConfig) {
+  const { path } = socketConfig;
+  onShutdown(() => removeSocket(path));
+}
+
+registerShutdownHandlers(() => server, {
+  timeout: resolveShutdownTimeout(adapterConfig.shutdownTimeout ?? 30),
+  closeLongLived: closeWebSockets,
+});
+
+let stopSchedule: (() => Promise<void>) | null = null;
+onShutdown(async (reason) => {
+  await stopSchedule?.();
+  await hooks.onShutdown?.({ ...lifecycleContext, reason });
+});
+
+if (metricsConfig?.port !== undefined) {
+  const config = metricsConfig;
+  // Workers each serve their own metrics on consecutive ports: on a shared
+  // port, every scrape would reach a random worker
+  const port =
+    workerId === null || config.port === 0
+      ? config.port!
+      : config.port! + workerId - 1;
+  let metricsServer: Bun.Server<unknown>;
+  try {
+    metricsServer = Bun.serve({
+      port,
+      hostname: listenOptions.hostname,
+      fetch(req) {
+        return (
+          respondMetrics(req, config, buildInfo) ??
+          new Response("Not Found", { status: 404 })
+        );
       },
-      { status: 500 }
+    });
+  } catch (error) {
+    fail(
+      (error as NodeJS.ErrnoException).code === "EADDRINUSE"
+        ? `Port ${port} is already in use. Choose another one with METRICS_PORT.`
+        : (error as Error).message
     );
-  },
-});
+  }
+  onShutdown(() => metricsServer.stop());
+  if (workerId !== null) {
+    console.log(
+      `${colors.green}${colors.bright}[SERVER]${colors.reset} ${colors.cyan}Metrics of worker ${workerId} on ${colors.bright}${formatListenUrl(listenOptions.hostname, metricsServer.port!)}${config.path}${colors.reset}`
+    );
+  }
+}
+
+const serverUrl =
+  server.port === undefined
+    ? null
+    : formatListenUrl(
+        listenOptions.hostname,
+        server.port,
+        tlsConfig ? "https" : "http"
+      );
+const listenDescription = activation
+  ? `systemd socket (fd ${activationFd})`
+  : socketConfig
+    ? `unix:${socketConfig.path}`
+    : serverUrl;
+
+if (tlsConfig) {
+  const config = tlsConfig;
+
+  // Bun cannot swap certificates on a live server, so a renewed certificate
+  // is picked up by a new listener while the old one drains its requests
+  const stopWatching = watchCertificates(config, () => {
+    let nextTlsOptions: Bun.TLSOptions;
+    try {
+      nextTlsOptions = loadTlsOptions(config);
+    } catch (error) {
+      logTlsError("Keeping the current certificate", error);
+      return;
+    }
+
+    const previous = server;
+    const target =
+      "unix" in listenTarget ? listenTarget : { port: previous.port! };
+    // Bun removes a socket file when its server stops, so a Unix socket
+    // listener is replaced once stopped. A TCP port is shared through
+    // reusePort instead, the old listener stops once the new one is bound.
+    const unix = "unix" in target;
+    if (unix) {
+      waitUntil(previous.stop());
+      removeSocket(target.unix);
+    }
+    try {
+      server = startServer(target, nextTlsOptions);
+    } catch (error) {
+      logTlsError("Invalid certificate, keeping the current one", error);
+      if (!unix) return;
+      try {
+        server = startServer(target, tlsOptions);
+      } catch (error) {
+        logTlsError("Could not listen again, shutting down", error);
+        process.kill(process.pid, "SIGTERM");
+      }
+      return;
+    }
+    tlsOptions = nextTlsOptions;
+    // Shutdown waits for the requests the old listener is finishing
+    if (!unix) waitUntil(previous.stop());
+    logTlsInfo("Certificate reloaded");
+  });
+  onShutdown(stopWatching);
+
+  if (config.redirectPort !== undefined && server.port !== undefined) {
+    let redirectServer: Bun.Server<unknown>;
+    try {
+      redirectServer = startRedirectServer(
+        listenOptions.hostname,
+        config.redirectPort,
+        server.port!,
+        workerId !== null
+      );
+    } catch (error) {
+      fail(
+        (error as NodeJS.ErrnoException).code === "EADDRINUSE"
+          ? `Port ${config.redirectPort} is already in use. Choose another one with HTTP_REDIRECT_PORT.`
+          : (error as Error).message
+      );
+    }
+    onShutdown(() => redirectServer.stop());
+    logTlsInfo(
+      `Redirecting ${formatListenUrl(
+        listenOptions.hostname,
+        redirectServer.port!
+      )} to HTTPS`
+    );
+  }
+}
 
 console.log(
-  `${colors.green}${colors.bright}[SERVER]${colors.reset} ${colors.cyan}Listening on ${colors.bright}http://localhost:${server.port}${colors.reset}`
+  `${colors.green}${colors.bright}[SERVER]${colors.reset} ${colors.cyan}Listening on ${colors.bright}${listenDescription}${colors.reset}${workerId !== null ? ` (worker ${workerId})` : ""}`
 );
 
-// Auto-open browser if enabled in adapter configuration
-if (adapterConfig.openBrowser) {
+await svelteKitServer;
+markReady();
+
+// Scheduled tasks run once, not in every worker
+if (hooks.schedule && (workerId ?? 1) === 1) {
+  try {
+    stopSchedule = startSchedule(hooks.schedule, lifecycleContext);
+  } catch (error) {
+    fail((error as Error).message);
+  }
+}
+
+if (cliArgs.sidecar) {
+  printHandshake({
+    url: serverUrl!,
+    port: server.port!,
+    pid: process.pid,
+    version: helpInfo.appVersion,
+  });
+}
+
+if (singleInstance) {
+  publishInstanceUrl(serverUrl);
+  onShutdown(releaseInstanceLock);
+}
+
+// Auto-open browser if enabled in adapter configuration (TCP only)
+if (
+  adapterConfig.openBrowser &&
+  serverUrl &&
+  !cliArgs.sidecar &&
+  (workerId ?? 1) === 1
+) {
+  await openInBrowser(serverUrl);
+}
+
+async function openInBrowser(url: string) {
   try {
     if (process.platform === "win32") {
-      await $`start http://localhost:${server.port}`;
+      await $`start ${url}`;
     } else if (process.platform === "darwin") {
-      await $`open http://localhost:${server.port}`;
+      await $`open ${url}`;
     } else {
-      await $`xdg-open http://localhost:${server.port}`;
+      await $`xdg-open ${url}`;
     }
     console.log(
-      `${colors.blue}${colors.bright}[BROWSER]${colors.reset} ${colors.cyan}Opening ${colors.bright}http://localhost:${server.port}${colors.reset} in default browser`
+      `${colors.blue}${colors.bright}[BROWSER]${colors.reset} ${colors.cyan}Opening ${colors.bright}${url}${colors.reset} in default browser`
     );
   } catch (error) {
     console.log(
-      `${colors.blue}${colors.bright}[BROWSER]${colors.reset} ${colors.cyan}Could not auto-open browser. Please visit ${colors.bright}http://localhost:${server.port}${colors.reset} manually`
+      `${colors.blue}${colors.bright}[BROWSER]${colors.reset} ${colors.cyan}Could not auto-open browser. Please visit ${colors.bright}${url}${colors.reset} manually`
     );
   }
 }
@@ -0,0 +1,189 @@
+// Libs
+import {
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+// Types
+/**
+ * What to do when the port is taken:
+ * - `next`: try the following ports, then a random one
+ * - `random`: let the system pick a free port
+ */
+export type PortFallback = "next" | "random";
+
+interface InstanceLock {
+  pid: number;
+  /** URL of the instance, once it is listening */
+  url: string | null;
+}
+
+const LOCK_FILE = "instance.lock";
+
+// Ports tried by the "next" fallback before a random one
+const MAX_PORT_ATTEMPTS = 10;
+
+// How long to wait for a starting instance to report its URL
+const STARTUP_WAIT = 5000;
+
+// Lock file held by this process, if any
+let lockPath: string | null = null;
+
+/**
+ * Resolve the port fallback. PORT_FALLBACK (next, random or off) takes
+ * precedence over the build-time `portFallback` option.
+ */
+export function resolvePortFallback(
+  buildTime: PortFallback | false
+): PortFallback | null {
+  const value = process.env.PORT_FALLBACK?.trim().toLowerCase();
+  if (!value) return buildTime || null;
+  if (value === "off") return null;
+  if (value === "next" || value === "random") return value;
+  throw new Error(
+    `PORT_FALLBACK must be one of next, random or off, got "${value}"`
+  );
+}
+
+/**
+ * Port to try after `port` was found taken
+ * @returns 0 for a random port
+ */
+export function getFallbackPort(
+  port: number,
+  fallback: PortFallback,
+  attempt: number
+) {
+  if (fallback === "random" || attempt >= MAX_PORT_ATTEMPTS) return 0;
+  return port < 65535 ? port + 1 : 0;
+}
+
+/**
+ * Resolve single-instance mode. SINGLE_INSTANCE (on or off) takes
+ * precedence over the build-time `singleInstance` option.
+ */
+export function resolveSingleInstance(buildTime: boolean) {
+  const value = process.env.SINGLE_INSTANCE?.trim().toLowerCase();
+  if (!value) return buildTime;
+  if (value === "on" || value === "off") return value === "on";
+  throw new Error(`SINGLE_INSTANCE must be "on" or "off", got "${value}"`);
+}
+
+/**
+ * Per-user data directory of the app, following each platform's
+ * convention. DATA_DIR overrides it.
+ */
+export function getDataDir(appName: string) {
+  if (process.env.DATA_DIR) return process.env.DATA_DIR;
+
+  // Scoped package names would otherwise create nested directories
+  const name = appName.replace(/^@/, "").replace(/[/\\:]/g, "-");
+  const home = homedir();
+  if (process.platform === "win32") {
+    const localAppData =
+      process.env.LOCALAPPDATA ?? join(home, "AppData", "Local");
+    return join(localAppData, name);
+  }
+  if (process.platform === "darwin") {
+    return join(home, "Library", "Application Support", name);
+  }
+  return join(
+    process.env.XDG_DATA_HOME ?? join(home, ".local", "share"),
+    name
+  );
+}
+
+/**
+ * Whether a process exists, including one owned by another user
+ */
+export function isRunning(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // The process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+// A lock with our own PID was left by an earlier process, e.g. in a container
+function isHolderRunning(lock: InstanceLock) {
+  return lock.pid !== process.pid && isRunning(lock.pid);
+}
+
+function readLock(path: string): InstanceLock | null {
+  try {
+    const lock = JSON.parse(readFileSync(path, "utf-8"));
+    return typeof lock?.pid === "number" ? lock : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take the single-instance lock in the app's data directory. A lock left
+ * by a process that is no longer running is replaced.
+ * @returns null when the lock was taken, or the lock of the running instance
+ */
+export async function acquireInstanceLock(
+  appName: string
+): Promise<InstanceLock | null> {
+  const dir = getDataDir(appName);
+  const path = join(dir, LOCK_FILE);
+  mkdirSync(dir, { recursive: true });
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const lock: InstanceLock = { pid: process.pid, url: null };
+      writeFileSync(path, JSON.stringify(lock), { flag: "wx" });
+      lockPath = path;
+      return null;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    }
+
+    let lock = readLock(path);
+    // The other instance may still be starting, wait for its URL
+    for (
+      let waited = 0;
+      lock && !lock.url && isHolderRunning(lock) && waited < STARTUP_WAIT;
+      waited += 100
+    ) {
+      await Bun.sleep(100);
+      lock = readLock(path);
+    }
+    if (lock && isHolderRunning(lock)) return lock;
+
+    rmSync(path, { force: true });
+  }
+
+  throw new Error(`Could not take the instance lock ${path}`);
+}
+
+/**
+ * Record the URL of this instance in its lock, for later launches to open
+ */
+export function publishInstanceUrl(url: string | null) {
+  if (!lockPath) return;
+  const lock: InstanceLock = { pid: process.pid, url };
+  // Renamed into place, so other launches never read a partial lock
+  writeFileSync(`${lockPath}.tmp`, JSON.stringify(lock));
+  renameSync(`${lockPath}.tmp`, lockPath);
+}
+
+/**
+ * Remove the lock held by this process
+ */
+export function releaseInstanceLock() {
+  if (!lockPath) return;
+  // Only remove the lock if it is still ours
+  if (readLock(lockPath)?.pid === process.pid) {
+    rmSync(lockPath, { force: true });
+  }
+  lockPath = null;
+}
@@ -0,0 +1,146 @@
+// Libs
+import { isIP } from "node:net";
+
+// Types
+interface IpAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface IpRange extends IpAddress {
+  /** Prefix length, e.g. 8 for 10.0.0.0/8 */
+  bits: number;
+}
+
+interface IpFilterConfig {
+  allow: IpRange[];
+  deny: IpRange[];
+}
+
+export type { IpFilterConfig };
+
+interface BuildTimeIpFilter {
+  allow?: string[];
+  deny?: string[];
+}
+
+const WIDTH = { 4: 32, 6: 128 } as const;
+
+function parseIPv4(address: string) {
+  return address
+    .split(".")
+    .reduce((value, part) => (value << 8n) | BigInt(part), 0n);
+}
+
+function parseIPv6(address: string) {
+  // An embedded IPv4 address fills the last two groups
+  const ipv4 = /(\d+\.\d+\.\d+\.\d+)$/.exec(address)?.[1];
+  if (ipv4) {
+    const value = parseIPv4(ipv4);
+    const groups = `${(value >> 16n).toString(16)}:${(value & 0xffffn).toString(16)}`;
+    address = address.slice(0, -ipv4.length) + groups;
+  }
+
+  const [head, tail] = address.split("::") as [string, string | undefined];
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array(8 - headGroups.length - tailGroups.length).fill("0"),
+          ...tailGroups,
+        ];
+
+  return groups.reduce(
+    (value, group) => (value << 16n) | BigInt(`0x${group}`),
+    0n
+  );
+}
+
+/**
+ * Parse an IPv4 or IPv6 address. IPv4-mapped IPv6 addresses
+ * (::ffff:10.0.0.1) are treated as the IPv4 address.
+ * @returns null when the value is not an IP address
+ */
+function parseAddress(address: string): IpAddress | null {
+  // Drop brackets and the zone index of link-local addresses
+  const cleaned = address.replace(/^\[|\]$/g, "").replace(/%.*$/, "");
+
+  switch (isIP(cleaned)) {
+    case 4:
+      return { version: 4, value: parseIPv4(cleaned) };
+    case 6: {
+      const value = parseIPv6(cleaned);
+      if (value >> 32n === 0xffffn) {
+        return { version: 4, value: value & 0xffffffffn };
+      }
+      return { version: 6, value };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a CIDR range such as 10.0.0.0/8 or fd00::/8. A single address
+ * is a range of its own.
+ */
+function parseRange(entry: string, name: string): IpRange {
+  const [address, prefix] = entry.trim().split("/") as [string, string?];
+  const parsed = parseAddress(address);
+  const width = parsed ? WIDTH[parsed.version] : 0;
+  const bits = prefix === undefined ? width : Number(prefix);
+
+  if (!parsed || !Number.isInteger(bits) || bits < 0 || bits > width) {
+    throw new Error(
+      `${name} must contain IP addresses or CIDR ranges, got "${entry}"`
+    );
+  }
+  return { ...parsed, bits };
+}
+
+function parseRanges(value: string | string[], name: string) {
+  const entries = typeof value === "string" ? value.split(",") : value;
+  return entries
+    .filter((entry) => entry.trim())
+    .map((entry) => parseRange(entry, name));
+}
+
+/**
+ * Resolve the IP allow and deny lists. IP_ALLOW and IP_DENY, comma-separated,
+ * take precedence over the build-time `ipFilter` option.
+ * @returns null when both lists are empty
+ */
+export function resolveIpFilterConfig(
+  buildTime: BuildTimeIpFilter
+): IpFilterConfig | null {
+  const env = process.env;
+  const allow = parseRanges(env.IP_ALLOW ?? buildTime.allow ?? [], "IP_ALLOW");
+  const deny = parseRanges(env.IP_DENY ?? buildTime.deny ?? [], "IP_DENY");
+
+  if (allow.length === 0 && deny.length === 0) return null;
+  return { allow, deny };
+}
+
+function inRange(address: IpAddress, range: IpRange) {
+  if (address.version !== range.version) return false;
+  const shift = BigInt(WIDTH[range.version] - range.bits);
+  return address.value >> shift === range.value >> shift;
+}
+
+/**
+ * Whether a client address may access the app: it must not match the
+ * deny list and, when there is an allow list, must match it
+ */
+export function isAddressAllowed(address: string, config: IpFilterConfig) {
+  const parsed = parseAddress(address);
+  if (!parsed) return config.allow.length === 0;
+
+  if (config.deny.some((range) => inRange(parsed, range))) return false;
+  return (
+    config.allow.length === 0 ||
+    config.allow.some((range) => inRange(parsed, range))
+  );
+}
@@ -0,0 +1,126 @@
+// Libs
+import { getNextRun, parseCron, type CronSchedule } from "./cron";
+import { logError } from "./errors";
+
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  yellow: "\x1b[33m",
+  magenta: "\x1b[35m",
+  cyan: "\x1b[36m",
+};
+
+// Types
+interface LifecycleContext {
+  /** App name and version, from its package.json */
+  name: string;
+  version: string;
+  /** Worker number in cluster mode, null otherwise */
+  workerId: number | null;
+  /** Per-user data directory of the app */
+  dataDir: string;
+}
+
+type ScheduledTask = (
+  ctx: LifecycleContext & { scheduledAt: Date }
+) => unknown;
+
+interface LifecycleHooks {
+  onStart?: (ctx: LifecycleContext) => unknown;
+  onShutdown?: (ctx: LifecycleContext & { reason: string }) => unknown;
+  /** Tasks keyed by cron expression */
+  schedule?: Record<string, ScheduledTask>;
+}
+
+export type { LifecycleContext, LifecycleHooks };
+
+// setTimeout delays are capped at about 24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+function log(message: string, color = colors.cyan) {
+  console.log(
+    `${colors.magenta}${colors.bright}[SCHEDULE]${colors.reset} ${color}${message}${colors.reset}`
+  );
+}
+
+/**
+ * Run the tasks of the `schedule` table, each at the times its cron
+ * expression matches. A run is skipped while the previous one is going.
+ * Expressions are checked before anything is scheduled.
+ * @returns A function that stops scheduling and waits for running tasks
+ */
+export function startSchedule(
+  schedule: Record<string, ScheduledTask>,
+  ctx: LifecycleContext
+) {
+  const tasks = Object.entries(schedule).map(([expression, task]) => {
+    if (typeof task !== "function") {
+      throw new Error(`Scheduled task "${expression}" is not a function`);
+    }
+    const cron = parseCron(expression);
+    if (!getNextRun(cron, new Date())) {
+      throw new Error(`Cron expression "${expression}" never matches`);
+    }
+    return { expression, task, cron };
+  });
+
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const running = new Map<string, Promise<void>>();
+  let stopped = false;
+
+  const arm = (
+    expression: string,
+    cron: CronSchedule,
+    task: ScheduledTask
+  ) => {
+    const next = getNextRun(cron, new Date());
+    if (!next || stopped) return;
+
+    const wait = (at: Date) => {
+      const timer = setTimeout(
+        () => {
+          timers.delete(timer);
+          if (at.getTime() > Date.now()) return wait(at);
+          run(expression, task, at);
+          arm(expression, cron, task);
+        },
+        Math.min(at.getTime() - Date.now(), MAX_TIMER_DELAY)
+      );
+      timers.add(timer);
+    };
+    wait(next);
+  };
+
+  const run = (expression: string, task: ScheduledTask, at: Date) => {
+    if (running.has(expression)) {
+      log(
+        `Skipping "${expression}", the previous run is still going`,
+        colors.yellow
+      );
+      return;
+    }
+
+    const promise = (async () => {
+      try {
+        await task({ ...ctx, scheduledAt: at });
+      } catch (error) {
+        logError(error, `Scheduled task "${expression}"`);
+      } finally {
+        running.delete(expression);
+      }
+    })();
+    running.set(expression, promise);
+  };
+
+  for (const { expression, cron, task } of tasks) {
+    arm(expression, cron, task);
+  }
+  if (tasks.length > 0) log(`${tasks.length} task(s) scheduled`);
+
+  return async () => {
+    stopped = true;
+    for (const timer of timers) clearTimeout(timer);
+    await Promise.all(running.values());
+  };
+}
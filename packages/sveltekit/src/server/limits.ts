@@ -0,0 +1,224 @@
+// Libs
+import { error } from "@sveltejs/kit";
+import { matchPath } from "./patterns";
+
+// Types
+interface RouteTimeout {
+  /** Seconds a connection may stay idle (0 disables the timeout) */
+  idleTimeout?: number;
+  /** Seconds the app has to produce a response (0 disables the timeout) */
+  requestTimeout?: number;
+}
+
+interface LimitsConfig {
+  /** Maximum request body size in bytes */
+  bodySizeLimit: number;
+  idleTimeout: number;
+  requestTimeout: number;
+  /** Overrides keyed by path glob, first match wins */
+  routeTimeouts: Array<[string, RouteTimeout]>;
+}
+
+export type { LimitsConfig, RouteTimeout };
+
+interface BuildTimeLimits {
+  bodySizeLimit?: number | string;
+  idleTimeout?: number;
+  requestTimeout?: number;
+  routeTimeouts?: Record<string, RouteTimeout>;
+}
+
+// Bun caps idle timeouts at 255 seconds
+const MAX_IDLE_TIMEOUT = 255;
+
+export const DEFAULT_BODY_SIZE_LIMIT = "512K";
+export const DEFAULT_IDLE_TIMEOUT = 10;
+
+/**
+ * Parse a size such as 512K, 1M, 2G or Infinity into bytes
+ */
+export function parseBodySizeLimit(value: number | string) {
+  if (typeof value === "number") return value;
+
+  const trimmed = value.trim();
+  if (trimmed === "Infinity") return Infinity;
+
+  const multipliers: Record<string, number> = {
+    K: 1024,
+    M: 1024 * 1024,
+    G: 1024 * 1024 * 1024,
+  };
+  const multiplier = multipliers[trimmed.slice(-1).toUpperCase()];
+  const amount = multiplier ? trimmed.slice(0, -1).trim() : trimmed;
+  // Number("") is 0, an empty value is not a limit of 0 bytes
+  const bytes = amount === "" ? NaN : Number(amount) * (multiplier ?? 1);
+
+  if (isNaN(bytes) || bytes < 0) {
+    throw new Error(
+      `Invalid body size limit "${value}", expected bytes or a value such as 512K, 1M or Infinity`
+    );
+  }
+  return bytes;
+}
+
+function parseSeconds(name: string, value: number | string) {
+  const seconds = Number(value);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error(`${name} must be a number of seconds, got "${value}"`);
+  }
+  return seconds;
+}
+
+function parseIdleTimeout(name: string, value: number | string) {
+  const seconds = parseSeconds(name, value);
+  if (seconds > MAX_IDLE_TIMEOUT) {
+    throw new Error(
+      `${name} must be at most ${MAX_IDLE_TIMEOUT} seconds (use 0 to disable it), got ${seconds}`
+    );
+  }
+  return seconds;
+}
+
+/**
+ * Resolve request limits. BODY_SIZE_LIMIT, IDLE_TIMEOUT and REQUEST_TIMEOUT
+ * take precedence over the build-time options.
+ */
+export function resolveLimitsConfig(buildTime: BuildTimeLimits): LimitsConfig {
+  const env = process.env;
+
+  const routeTimeouts = Object.entries(buildTime.routeTimeouts ?? {}).map(
+    ([pattern, timeouts]): [string, RouteTimeout] => {
+      const name = `routeTimeouts["${pattern}"]`;
+      const { idleTimeout, requestTimeout } = timeouts;
+      return [
+        pattern,
+        {
+          idleTimeout:
+            idleTimeout === undefined
+              ? undefined
+              : parseIdleTimeout(`${name}.idleTimeout`, idleTimeout),
+          requestTimeout:
+            requestTimeout === undefined
+              ? undefined
+              : parseSeconds(`${name}.requestTimeout`, requestTimeout),
+        },
+      ];
+    }
+  );
+
+  return {
+    bodySizeLimit: parseBodySizeLimit(
+      env.BODY_SIZE_LIMIT || buildTime.bodySizeLimit || DEFAULT_BODY_SIZE_LIMIT
+    ),
+    idleTimeout: parseIdleTimeout(
+      "IDLE_TIMEOUT",
+      env.IDLE_TIMEOUT || (buildTime.idleTimeout ?? DEFAULT_IDLE_TIMEOUT)
+    ),
+    requestTimeout: parseSeconds(
+      "REQUEST_TIMEOUT",
+      env.REQUEST_TIMEOUT || (buildTime.requestTimeout ?? 0)
+    ),
+    routeTimeouts,
+  };
+}
+
+/**
+ * Timeouts that apply to a path, route overrides taking precedence
+ */
+export function getRouteTimeouts(pathname: string, config: LimitsConfig) {
+  const match = config.routeTimeouts.find(([pattern]) =>
+    matchPath(pattern, pathname)
+  )?.[1];
+
+  return {
+    idleTimeout: match?.idleTimeout,
+    requestTimeout: match?.requestTimeout ?? config.requestTimeout,
+  };
+}
+
+/**
+ * Reject requests whose declared body is larger than the limit
+ */
+export function checkBodySize(req: Request, config: LimitsConfig) {
+  const contentLength = Number(req.headers.get("Content-Length"));
+  if (contentLength > config.bodySizeLimit) {
+    return new Response("Payload Too Large", { status: 413 });
+  }
+  return null;
+}
+
+/**
+ * Cap bodies sent without a Content-Length (chunked) while the app reads
+ * them. Going over the limit fails the read with a 413 error, as in adapter-node.
+ */
+export function limitRequestBody(req: Request, config: LimitsConfig) {
+  const limit = config.bodySizeLimit;
+  if (
+    !req.body ||
+    !Number.isFinite(limit) ||
+    req.headers.has("Content-Length")
+  ) {
+    return req;
+  }
+
+  let size = 0;
+  const body = req.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        size += chunk.byteLength;
+        if (size > limit) {
+          try {
+            error(
+              413,
+              `Content-length of ${size} exceeds limit of ${limit} bytes.`
+            );
+          } catch (httpError) {
+            controller.error(httpError);
+          }
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    })
+  );
+
+  return new Request(req.url, {
+    method: req.method,
+    headers: req.headers,
+    body,
+    signal: req.signal,
+    // Required for streamed request bodies
+    duplex: "half",
+  });
+}
+
+/**
+ * Respond with 408 if the app does not produce a response in time.
+ * Once the response has started (e.g. a stream), the timeout no longer applies.
+ */
+export async function withRequestTimeout(
+  response: Promise<Response>,
+  seconds: number
+) {
+  if (seconds <= 0) return response;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<Response>((resolve) => {
+    timer = setTimeout(
+      () =>
+        resolve(
+          new Response("Request Timeout", {
+            status: 408,
+            headers: { Connection: "close" },
+          })
+        ),
+      seconds * 1000
+    );
+  });
+
+  try {
+    return await Promise.race([response, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
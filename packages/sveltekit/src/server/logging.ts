@@ -0,0 +1,147 @@
+// Types
+export type AccessLogFormat = "json" | "clf";
+
+interface AccessLogEntry {
+  requestId: string;
+  method: string;
+  url: URL;
+  status: number;
+  /** Request duration in milliseconds */
+  duration: number;
+  /** Response body size, null when unknown */
+  bytes: number | null;
+  clientAddress: string;
+  userAgent: string | null;
+  referer: string | null;
+}
+
+export type { AccessLogEntry };
+
+// Incoming request IDs are reused only when they look sane
+const REQUEST_ID_PATTERN = /^[\w\-.:+/=]{1,200}$/;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+/**
+ * Resolve the access log format. ACCESS_LOG (json, clf or off) takes
+ * precedence over the build-time `accessLog` option.
+ * @returns null when access logging is disabled
+ */
+export function resolveAccessLogFormat(
+  buildTime?: AccessLogFormat | false
+): AccessLogFormat | null {
+  const value = process.env.ACCESS_LOG?.trim().toLowerCase();
+  if (value === undefined || value === "") return buildTime || null;
+  if (value === "off" || value === "false") return null;
+  if (value === "json" || value === "clf") return value;
+  throw new Error(`ACCESS_LOG must be one of json, clf or off, got "${value}"`);
+}
+
+/**
+ * Reuse the incoming X-Request-Id (e.g. set by a proxy) or generate one
+ */
+export function getRequestId(req: Request) {
+  const incoming = req.headers.get("X-Request-Id");
+  if (incoming && REQUEST_ID_PATTERN.test(incoming)) return incoming;
+  return crypto.randomUUID();
+}
+
+/**
+ * Return a response carrying the given header. Responses with immutable
+ * headers (e.g. from Response.redirect) are copied.
+ */
+export function withHeader(response: Response, name: string, value: string) {
+  try {
+    response.headers.set(name, value);
+    return response;
+  } catch {
+    const copy = new Response(response.body, response);
+    copy.headers.set(name, value);
+    return copy;
+  }
+}
+
+/**
+ * Call `onComplete` with the number of body bytes once the response has
+ * been fully sent. Responses with a known length are not wrapped.
+ */
+export function trackResponseSize(
+  response: Response,
+  onComplete: (bytes: number | null) => void
+) {
+  const contentLength = response.headers.get("Content-Length");
+  if (!response.body || contentLength !== null) {
+    onComplete(contentLength !== null ? Number(contentLength) : 0);
+    return response;
+  }
+
+  let bytes = 0;
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytes += chunk.byteLength;
+        controller.enqueue(chunk);
+      },
+      flush() {
+        onComplete(bytes);
+      },
+    })
+  );
+
+  return new Response(body, response);
+}
+
+function formatClfDate(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const day = pad(date.getUTCDate());
+  const month = MONTHS[date.getUTCMonth()];
+  const time = [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()]
+    .map(pad)
+    .join(":");
+  return `${day}/${month}/${date.getUTCFullYear()}:${time} +0000`;
+}
+
+/**
+ * Write one access log line to stdout
+ */
+export function logAccess(format: AccessLogFormat, entry: AccessLogEntry) {
+  const path = entry.url.pathname + entry.url.search;
+  const duration = Math.round(entry.duration * 100) / 100;
+
+  if (format === "json") {
+    console.log(
+      JSON.stringify({
+        time: new Date().toISOString(),
+        requestId: entry.requestId,
+        method: entry.method,
+        path,
+        status: entry.status,
+        durationMs: duration,
+        bytes: entry.bytes,
+        clientAddress: entry.clientAddress,
+        userAgent: entry.userAgent,
+        referer: entry.referer,
+      })
+    );
+    return;
+  }
+
+  // Common Log Format, followed by the duration and the request ID
+  const bytes = entry.bytes === null ? "-" : entry.bytes;
+  console.log(
+    `${entry.clientAddress} - - [${formatClfDate(new Date())}] "${entry.method} ${path} HTTP/1.1" ${entry.status} ${bytes} ${duration}ms ${entry.requestId}`
+  );
+}
@@ -0,0 +1,271 @@
+// Libs
+import { timingSafeEqual } from "node:crypto";
+
+// Types
+import type { SSRManifest } from "@sveltejs/kit";
+
+interface MetricsConfig {
+  path: string;
+  /** Bearer token required to scrape the metrics, if any */
+  token?: string;
+  /** Serve the metrics on this separate port instead of the app's */
+  port?: number;
+}
+
+interface BuildInfo {
+  name: string;
+  version: string;
+  adapterVersion: string;
+}
+
+export type { MetricsConfig, BuildInfo };
+
+interface BuildTimeMetrics {
+  path?: string;
+  token?: string;
+  port?: number;
+}
+
+type StaticSource = "embedded" | "disk";
+
+interface HistogramSeries {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+// Latency buckets in seconds
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+export const DEFAULT_METRICS_PATH = "/metrics";
+
+// Variables
+const requestCounts = new Map<string, number>();
+const requestDurations = new Map<string, HistogramSeries>();
+const staticHits: Record<StaticSource, number> = { embedded: 0, disk: 0 };
+let inFlight = 0;
+
+/**
+ * Resolve the metrics settings. METRICS (on/off), METRICS_PATH,
+ * METRICS_TOKEN and METRICS_PORT take precedence over the build-time option.
+ * @returns null when metrics are disabled
+ */
+export function resolveMetricsConfig(
+  buildTime: BuildTimeMetrics | boolean | undefined
+): MetricsConfig | null {
+  const env = process.env;
+  const toggle = env.METRICS?.trim().toLowerCase();
+  const enabled =
+    toggle === "on" || toggle === "true"
+      ? true
+      : toggle === "off" || toggle === "false"
+        ? false
+        : !!buildTime;
+  if (!enabled) return null;
+
+  const options = typeof buildTime === "object" ? buildTime : {};
+  const path =
+    env.METRICS_PATH?.trim() || options.path || DEFAULT_METRICS_PATH;
+  if (!path.startsWith("/")) {
+    throw new Error(`METRICS_PATH must start with "/", got "${path}"`);
+  }
+
+  const port = env.METRICS_PORT ? Number(env.METRICS_PORT) : options.port;
+  if (
+    port !== undefined &&
+    (!Number.isInteger(port) || port < 0 || port > 65535)
+  ) {
+    throw new Error(`Invalid metrics port "${env.METRICS_PORT ?? port}"`);
+  }
+
+  return {
+    path,
+    token: env.METRICS_TOKEN || options.token,
+    port,
+  };
+}
+
+/**
+ * Map a pathname to a bounded label: the SvelteKit route id when a route
+ * matches, the path of prerendered pages, or "unknown"
+ */
+export function createRouteResolver(manifest: SSRManifest) {
+  const routes = manifest._.routes;
+  const prerendered = manifest._.prerendered_routes;
+
+  return (pathname: string) => {
+    if (prerendered.has(pathname)) return pathname;
+
+    const routePath = pathname.replace(/\/__data\.json$/, "") || "/";
+    const route = routes.find((candidate) =>
+      candidate.pattern.test(routePath)
+    );
+    return route ? route.id : "unknown";
+  };
+}
+
+function labelKey(labels: Record<string, string>) {
+  return JSON.stringify(labels);
+}
+
+function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>) {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+export function requestStarted() {
+  inFlight++;
+}
+
+/**
+ * Record a finished request
+ * @param {number} duration - Duration in seconds
+ */
+export function requestFinished(
+  labels: { route: string; method: string; status: string },
+  duration: number
+) {
+  inFlight--;
+
+  const key = labelKey(labels);
+  requestCounts.set(key, (requestCounts.get(key) ?? 0) + 1);
+
+  const histogramKey = labelKey({
+    route: labels.route,
+    status: labels.status,
+  });
+  const series = requestDurations.get(histogramKey) ?? {
+    buckets: DURATION_BUCKETS.map(() => 0),
+    sum: 0,
+    count: 0,
+  };
+  DURATION_BUCKETS.forEach((bound, i) => {
+    if (duration <= bound) series.buckets[i]!++;
+  });
+  series.sum += duration;
+  series.count++;
+  requestDurations.set(histogramKey, series);
+}
+
+export function recordStaticHit(source: StaticSource) {
+  staticHits[source]++;
+}
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ */
+export function renderMetrics(buildInfo: BuildInfo) {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+
+  metric("http_requests_total", "counter", "Total HTTP requests");
+  for (const [key, count] of requestCounts) {
+    lines.push(`http_requests_total${formatLabels(JSON.parse(key))} ${count}`);
+  }
+
+  metric(
+    "http_request_duration_seconds",
+    "histogram",
+    "Time until the response starts, in seconds"
+  );
+  for (const [key, series] of requestDurations) {
+    const labels = JSON.parse(key);
+    const bucket = (le: string, value: number) =>
+      `http_request_duration_seconds_bucket${formatLabels({ ...labels, le })} ${value}`;
+
+    DURATION_BUCKETS.forEach((bound, i) => {
+      lines.push(bucket(String(bound), series.buckets[i]!));
+    });
+    lines.push(
+      bucket("+Inf", series.count),
+      `http_request_duration_seconds_sum${formatLabels(labels)} ${series.sum}`,
+      `http_request_duration_seconds_count${formatLabels(labels)} ${series.count}`
+    );
+  }
+
+  metric("http_requests_in_flight", "gauge", "HTTP requests being handled");
+  lines.push(`http_requests_in_flight ${inFlight}`);
+
+  metric(
+    "static_asset_hits_total",
+    "counter",
+    "Static files served, by source"
+  );
+  for (const source of Object.keys(staticHits) as StaticSource[]) {
+    lines.push(
+      `static_asset_hits_total${formatLabels({ source })} ${staticHits[source]}`
+    );
+  }
+
+  const memory = process.memoryUsage();
+  metric(
+    "process_resident_memory_bytes",
+    "gauge",
+    "Resident memory size in bytes"
+  );
+  lines.push(`process_resident_memory_bytes ${memory.rss}`);
+  metric("process_heap_used_bytes", "gauge", "JavaScript heap used in bytes");
+  lines.push(`process_heap_used_bytes ${memory.heapUsed}`);
+
+  metric("process_uptime_seconds", "gauge", "Process uptime in seconds");
+  lines.push(`process_uptime_seconds ${process.uptime()}`);
+
+  metric("app_build_info", "gauge", "Build information of the binary");
+  lines.push(
+    `app_build_info${formatLabels({
+      name: buildInfo.name,
+      version: buildInfo.version,
+      adapter_version: buildInfo.adapterVersion,
+      bun_version: Bun.version,
+    })} 1`
+  );
+
+  return lines.join("\n") + "\n";
+}
+
+function isAuthorized(req: Request, token: string) {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const received = Buffer.from(req.headers.get("Authorization") ?? "");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+}
+
+/**
+ * Serve the metrics endpoint
+ * @returns null when the request is not for the metrics path
+ */
+export function respondMetrics(
+  req: Request,
+  config: MetricsConfig,
+  buildInfo: BuildInfo
+) {
+  if (new URL(req.url).pathname !== config.path) return null;
+
+  if (config.token && !isAuthorized(req, config.token)) {
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: { "WWW-Authenticate": 'Bearer realm="metrics"' },
+    });
+  }
+
+  return new Response(renderMetrics(buildInfo), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
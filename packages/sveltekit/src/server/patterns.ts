@@ -0,0 +1,54 @@
+// Compiled patterns, patterns are few and reused on every request
+const cache = new Map<string, RegExp>();
+
+/**
+ * Compile a path glob into a regular expression.
+ * `*` matches within a single path segment, `**` matches across segments.
+ * `/api/**` matches `/api` itself as well as everything below it.
+ */
+function compile(pattern: string) {
+  let regex = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "/**" also matches the parent path itself
+      if (regex.endsWith("\\/")) {
+        regex = regex.slice(0, -2) + "(?:\\/.*)?";
+      } else {
+        regex += ".*";
+      }
+      i++;
+    } else if (char === "*") {
+      regex += "[^/]*";
+    } else {
+      regex += char.replace(/[.+?^${}()|[\]\\/]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Whether a pathname matches a path glob
+ */
+export function matchPath(pattern: string, pathname: string) {
+  let regex = cache.get(pattern);
+  if (!regex) {
+    regex = compile(pattern);
+    cache.set(pattern, regex);
+  }
+  return regex.test(pathname);
+}
+
+/**
+ * Decode a pathname the way SvelteKit does before routing, so rules match
+ * the route a request reaches. `%25` and reserved characters such as `%2F`
+ * stay encoded.
+ * @returns null when the pathname is malformed
+ */
+export function decodeRoutePath(pathname: string) {
+  try {
+    return pathname.split("%25").map(decodeURI).join("%25");
+  } catch {
+    return null;
+  }
+}
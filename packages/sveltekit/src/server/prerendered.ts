@@ -0,0 +1,49 @@
+// Types
+interface PrerenderedConfig {
+  /** Prerendered page files, keyed by pathname (e.g. "/about/" → "about/index.html") */
+  pages: Record<string, string>;
+  /** Redirects recorded while prerendering, keyed by pathname */
+  redirects: Record<string, { status: number; location: string }>;
+}
+
+type PrerenderedMatch =
+  | { type: "page"; file: string }
+  | { type: "redirect"; status: number; location: string };
+
+export type { PrerenderedConfig, PrerenderedMatch };
+
+/**
+ * Resolve pathnames to prerendered pages and redirects, as recorded at
+ * build time. A pathname that only differs from a page by its trailing
+ * slash is redirected to it, as SvelteKit does.
+ */
+export function createPrerenderedResolver(config: PrerenderedConfig) {
+  const pages = new Map(Object.entries(config.pages));
+  const redirects = new Map(Object.entries(config.redirects));
+
+  return {
+    has(pathname: string) {
+      return pages.has(pathname);
+    },
+    resolve(pathname: string, search: string): PrerenderedMatch | null {
+      const file = pages.get(pathname);
+      if (file) return { type: "page", file: `/${file}` };
+
+      const redirect = redirects.get(pathname);
+      if (redirect) return { type: "redirect", ...redirect };
+
+      const toggled = pathname.endsWith("/")
+        ? pathname.slice(0, -1)
+        : `${pathname}/`;
+      if (toggled && pages.has(toggled)) {
+        return {
+          type: "redirect",
+          status: 308,
+          location: encodeURI(toggled) + search,
+        };
+      }
+
+      return null;
+    },
+  };
+}
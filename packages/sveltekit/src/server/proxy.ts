@@ -0,0 +1,121 @@
+// Types
+interface ProxyConfig {
+  /** Fixed origin of the app, e.g. https://my.site */
+  origin?: string;
+  protocolHeader?: string;
+  hostHeader?: string;
+  portHeader?: string;
+  addressHeader?: string;
+  xffDepth: number;
+}
+
+export type { ProxyConfig };
+
+/**
+ * Read the reverse-proxy settings from the environment, using the same
+ * variables as adapter-node: ORIGIN, PROTOCOL_HEADER, HOST_HEADER,
+ * PORT_HEADER, ADDRESS_HEADER and XFF_DEPTH.
+ */
+export function resolveProxyConfig(): ProxyConfig {
+  const env = process.env;
+  const header = (name: string) =>
+    env[name]?.trim().toLowerCase() || undefined;
+
+  let origin: string | undefined;
+  if (env.ORIGIN) {
+    try {
+      origin = new URL(env.ORIGIN).origin;
+    } catch {
+      throw new Error(`ORIGIN must be a valid URL, got "${env.ORIGIN}"`);
+    }
+  }
+
+  const xffDepth = Number(env.XFF_DEPTH ?? 1);
+  if (!Number.isInteger(xffDepth) || xffDepth < 1) {
+    throw new Error(
+      `XFF_DEPTH must be a positive integer, got "${env.XFF_DEPTH}"`
+    );
+  }
+
+  return {
+    origin,
+    protocolHeader: header("PROTOCOL_HEADER"),
+    hostHeader: header("HOST_HEADER"),
+    portHeader: header("PORT_HEADER"),
+    addressHeader: header("ADDRESS_HEADER"),
+    xffDepth,
+  };
+}
+
+/**
+ * Compute the public origin of a request from the configured headers.
+ * @returns null when no origin setting applies and the URL Bun sees is kept
+ */
+function getOrigin(req: Request, config: ProxyConfig) {
+  if (config.origin) return config.origin;
+  if (!config.protocolHeader && !config.hostHeader && !config.portHeader) {
+    return null;
+  }
+
+  const url = new URL(req.url);
+  const protocol =
+    (config.protocolHeader && req.headers.get(config.protocolHeader)) ||
+    url.protocol.slice(0, -1);
+  const host =
+    (config.hostHeader && req.headers.get(config.hostHeader)) ||
+    req.headers.get("host") ||
+    url.host;
+  const port = config.portHeader && req.headers.get(config.portHeader);
+
+  // Proxies may send a comma-separated list when chained, the first one is the client-facing value
+  const first = (value: string) => value.split(",")[0]!.trim();
+  const origin = `${first(protocol)}://${first(host)}`;
+  return port ? `${origin.replace(/:\d+$/, "")}:${first(port)}` : origin;
+}
+
+/**
+ * Rewrite the request URL to the public origin the client used
+ */
+export function applyProxyOrigin(req: Request, config: ProxyConfig) {
+  const origin = getOrigin(req, config);
+  if (origin === null) return req;
+
+  const url = new URL(req.url);
+  // Concatenated, a path such as //evil.com would otherwise replace the host
+  const publicUrl = new URL(origin + url.pathname + url.search);
+  if (publicUrl.href === url.href) return req;
+
+  return new Request(publicUrl.href, req);
+}
+
+/**
+ * Resolve the client address, from ADDRESS_HEADER when configured.
+ * For X-Forwarded-For, XFF_DEPTH selects how many proxies from the right
+ * are trusted.
+ */
+export function getProxyClientAddress(
+  req: Request,
+  config: ProxyConfig,
+  socketAddress: string
+) {
+  if (!config.addressHeader) return socketAddress;
+
+  const value = req.headers.get(config.addressHeader);
+  if (value === null) {
+    throw new Error(
+      `Address header was specified with ADDRESS_HEADER=${config.addressHeader} but is absent from request`
+    );
+  }
+
+  if (config.addressHeader === "x-forwarded-for") {
+    const addresses = value.split(",");
+    if (config.xffDepth > addresses.length) {
+      throw new Error(
+        `XFF_DEPTH is ${config.xffDepth}, but only found ${addresses.length} addresses`
+      );
+    }
+    return addresses[addresses.length - config.xffDepth]!.trim();
+  }
+
+  return value.trim();
+}
@@ -0,0 +1,120 @@
+// Libs
+import { matchPath } from "./patterns";
+
+// Types
+interface RateLimit {
+  /** Requests allowed per window */
+  requests: number;
+  /** Window length in seconds (default: 60) */
+  window?: number;
+  /** Requests that may be made at once before the rate applies (default: requests) */
+  burst?: number;
+}
+
+interface Bucket {
+  /** Tokens added per second */
+  rate: number;
+  capacity: number;
+}
+
+/** Rules keyed by path glob, first match wins; null exempts a path */
+type RateLimitRules = Array<[string, Bucket | null]>;
+
+interface BucketState {
+  tokens: number;
+  updated: number;
+}
+
+export type { RateLimit, RateLimitRules };
+
+// How often buckets that are full again are dropped
+const SWEEP_INTERVAL = 60_000;
+
+function parsePositive(name: string, value: unknown) {
+  if (typeof value !== "number" || !(value > 0) || !Number.isFinite(value)) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Resolve the rate limit rules, keyed by path glob. `false` exempts a path
+ * from the rules after it. RATE_LIMIT=off disables rate limiting.
+ * @returns null when rate limiting is disabled
+ */
+export function resolveRateLimits(
+  buildTime: Record<string, RateLimit | false>
+): RateLimitRules | null {
+  const value = process.env.RATE_LIMIT?.trim().toLowerCase();
+  if (value && value !== "on" && value !== "off") {
+    throw new Error(`RATE_LIMIT must be "on" or "off", got "${value}"`);
+  }
+
+  const entries = Object.entries(buildTime);
+  if (value === "off" || entries.length === 0) return null;
+
+  return entries.map(([pattern, limit]) => {
+    if (limit === false) return [pattern, null];
+
+    const name = `rateLimits["${pattern}"]`;
+    const requests = parsePositive(`${name}.requests`, limit.requests);
+    const window = parsePositive(`${name}.window`, limit.window ?? 60);
+    return [
+      pattern,
+      {
+        rate: requests / window,
+        capacity: parsePositive(`${name}.burst`, limit.burst ?? requests),
+      },
+    ];
+  });
+}
+
+/**
+ * Create a token-bucket rate limiter, with one bucket per client address
+ * and rule.
+ * @returns A function returning the seconds to wait before retrying when
+ * a request is over the limit, or null
+ */
+export function createRateLimiter(rules: RateLimitRules) {
+  const buckets = new Map<string, { state: BucketState; bucket: Bucket }>();
+
+  const refill = (state: BucketState, bucket: Bucket, now: number) => {
+    const elapsed = (now - state.updated) / 1000;
+    state.tokens = Math.min(
+      bucket.capacity,
+      state.tokens + elapsed * bucket.rate
+    );
+    state.updated = now;
+  };
+
+  // Drop buckets that are full again, they are the same as a new one
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, { state, bucket }] of buckets) {
+      refill(state, bucket, now);
+      if (state.tokens >= bucket.capacity) buckets.delete(key);
+    }
+  }, SWEEP_INTERVAL).unref();
+
+  return (pathname: string, clientAddress: string) => {
+    const [pattern, bucket] =
+      rules.find(([pattern]) => matchPath(pattern, pathname)) ?? [];
+    if (!bucket) return null;
+
+    const now = Date.now();
+    const key = `${pattern} ${clientAddress}`;
+    let entry = buckets.get(key);
+    if (!entry) {
+      entry = { state: { tokens: bucket.capacity, updated: now }, bucket };
+      buckets.set(key, entry);
+    }
+
+    const { state } = entry;
+    refill(state, bucket, now);
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return null;
+    }
+    return Math.ceil((1 - state.tokens) / bucket.rate);
+  };
+}
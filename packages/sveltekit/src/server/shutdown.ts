@@ -0,0 +1,168 @@
+// Libs
+import { logError } from "./errors";
+
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  red: "\x1b[31m",
+  cyan: "\x1b[36m",
+};
+
+// Types
+type ShutdownCallback = (reason: string) => void | Promise<void>;
+
+interface ShutdownOptions {
+  /** Seconds to wait for in-flight requests before forcing connections closed */
+  timeout: number;
+  /** Close long-lived connections (e.g. WebSockets), which would otherwise hold the drain until the timeout */
+  closeLongLived?: () => void;
+}
+
+// Event emitted by adapter-node on shutdown, listened to on `process`
+declare global {
+  namespace NodeJS {
+    interface Process {
+      on(event: "sveltekit:shutdown", listener: ShutdownCallback): this;
+      listeners(event: "sveltekit:shutdown"): ShutdownCallback[];
+    }
+  }
+}
+
+export const EXIT_CODES = {
+  /** All requests drained and every cleanup callback succeeded */
+  CLEAN: 0,
+  /** Connections were force-closed or a cleanup callback failed */
+  FORCED: 1,
+} as const;
+
+// Variables
+const callbacks: ShutdownCallback[] = [];
+const backgroundTasks = new Set<Promise<unknown>>();
+let shuttingDown = false;
+
+/**
+ * Register a callback to run once the server has stopped accepting connections
+ * and in-flight requests have drained (or the shutdown timeout has elapsed).
+ */
+export function onShutdown(callback: ShutdownCallback) {
+  callbacks.push(callback);
+}
+
+/**
+ * Keep a promise, such as work started by a request that outlives its
+ * response, from being cut off: shutdown waits for it to settle along with
+ * in-flight requests. Rejections are logged.
+ */
+export function waitUntil(promise: Promise<unknown>) {
+  const task = Promise.resolve(promise).catch((error) =>
+    logError(error, "waitUntil task")
+  );
+  backgroundTasks.add(task);
+  task.finally(() => backgroundTasks.delete(task));
+}
+
+async function settleBackgroundTasks() {
+  // Requests still draining may add tasks while earlier ones settle
+  while (backgroundTasks.size > 0) {
+    await Promise.allSettled(backgroundTasks);
+  }
+}
+
+/**
+ * Whether a shutdown signal has been received
+ */
+export function isShuttingDown() {
+  return shuttingDown;
+}
+
+/**
+ * Resolve the shutdown timeout in seconds, `SHUTDOWN_TIMEOUT` taking precedence
+ * over the build-time value
+ */
+export function resolveShutdownTimeout(buildTimeValue: number) {
+  const fromEnv = Number(process.env.SHUTDOWN_TIMEOUT);
+  if (process.env.SHUTDOWN_TIMEOUT && Number.isFinite(fromEnv) && fromEnv >= 0)
+    return fromEnv;
+  return buildTimeValue;
+}
+
+/**
+ * Stop the server gracefully on SIGTERM/SIGINT: refuse new connections,
+ * wait for active requests and `waitUntil` tasks up to `timeout` seconds,
+ * run the registered cleanup callbacks and exit. A second signal forces an
+ * immediate stop.
+ */
+export function registerShutdownHandlers(
+  getServer: () => Bun.Server<unknown>,
+  options: ShutdownOptions
+) {
+  let forceClose: (() => void) | null = null;
+
+  async function shutdown(reason: string) {
+    if (shuttingDown) {
+      forceClose?.();
+      return;
+    }
+    shuttingDown = true;
+    const server = getServer();
+
+    console.log(
+      `${colors.yellow}${colors.bright}[SHUTDOWN]${colors.reset} ${colors.cyan}Received ${reason}, draining ${server.pendingRequests} active request(s) and ${backgroundTasks.size} background task(s) (timeout ${options.timeout}s)${colors.reset}`
+    );
+
+    let exitCode: number = EXIT_CODES.CLEAN;
+
+    const drained = server
+      .stop()
+      .then(settleBackgroundTasks)
+      .then(() => true);
+    options.closeLongLived?.();
+    const timedOut = new Promise<false>((resolve) => {
+      const timer = setTimeout(() => resolve(false), options.timeout * 1000);
+      forceClose = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+    });
+
+    if (!(await Promise.race([drained, timedOut]))) {
+      console.log(
+        `${colors.red}${colors.bright}[SHUTDOWN]${colors.reset} ${colors.red}Forcing ${server.pendingRequests} remaining request(s) closed${colors.reset}`
+      );
+      if (backgroundTasks.size > 0) {
+        console.log(
+          `${colors.red}${colors.bright}[SHUTDOWN]${colors.reset} ${colors.red}Abandoning ${backgroundTasks.size} unfinished background task(s)${colors.reset}`
+        );
+      }
+      await server.stop(true);
+      exitCode = EXIT_CODES.FORCED;
+    }
+
+    // `sveltekit:shutdown` listeners (as in adapter-node) are awaited too, so
+    // apps can close their resources from hooks.server.ts
+    const appListeners = process.listeners("sveltekit:shutdown");
+
+    for (const callback of [...appListeners, ...callbacks]) {
+      try {
+        await callback(reason);
+      } catch (error) {
+        console.error(
+          `${colors.red}${colors.bright}[SHUTDOWN]${colors.reset} ${colors.red}Cleanup callback failed:${colors.reset}`,
+          error
+        );
+        exitCode = EXIT_CODES.FORCED;
+      }
+    }
+
+    console.log(
+      `${colors.green}${colors.bright}[SHUTDOWN]${colors.reset} ${colors.cyan}Server stopped (exit code ${exitCode})${colors.reset}`
+    );
+    process.exit(exitCode);
+  }
+
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+  process.on("SIGINT", () => shutdown("SIGINT"));
+}
@@ -0,0 +1,61 @@
+// Libs
+import { fstatSync, type Stats } from "node:fs";
+import { isRunning } from "./instance";
+
+// Types
+interface Handshake {
+  url: string;
+  port: number;
+  pid: number;
+  version: string;
+}
+
+// How often the parent process is checked
+const PARENT_CHECK_INTERVAL = 1000;
+
+/**
+ * Reserve stdout for the handshake: every log line goes to stderr instead
+ */
+export function redirectLogsToStderr() {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
+
+/**
+ * Print the handshake line the parent process waits for, once the app is ready
+ */
+export function printHandshake(handshake: Handshake) {
+  process.stdout.write(`${JSON.stringify(handshake)}\n`);
+}
+
+/**
+ * Shut down gracefully when the parent goes away: when it closes our stdin
+ * (a pipe, so a sidecar started with stdin ignored is not affected) or
+ * when its process is gone.
+ */
+export function watchParent() {
+  let stopping = false;
+  const stop = () => {
+    if (stopping) return;
+    stopping = true;
+    process.kill(process.pid, "SIGTERM");
+  };
+
+  const parentPid = process.ppid;
+  setInterval(() => {
+    // Orphans are re-parented on POSIX, Windows keeps the original PID
+    if (process.ppid !== parentPid || !isRunning(parentPid)) stop();
+  }, PARENT_CHECK_INTERVAL).unref();
+
+  let stdin: Stats | null = null;
+  try {
+    stdin = fstatSync(0);
+  } catch {
+    // No stdin at all
+  }
+  if (stdin?.isFIFO() || stdin?.isSocket()) {
+    process.stdin.on("close", stop);
+    process.stdin.resume();
+  }
+}
@@ -0,0 +1,136 @@
+// Libs
+import {
+  chmodSync,
+  lstatSync,
+  mkdtempSync,
+  rmSync,
+  unlinkSync,
+} from "node:fs";
+import { createConnection, createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+
+// Types
+interface SocketConfig {
+  /** Absolute path of the Unix socket to listen on */
+  path: string;
+  /** File mode applied to the socket once it is bound (e.g. 0o660) */
+  mode?: number;
+}
+
+export type { SocketConfig };
+
+// First file descriptor passed by systemd (SD_LISTEN_FDS_START)
+const LISTEN_FDS_START = 3;
+
+/**
+ * Resolve the Unix socket to listen on. The --socket flag takes precedence
+ * over SOCKET_PATH; SOCKET_MODE sets its file mode in octal (e.g. 660).
+ * @returns null when listening on a TCP port
+ */
+export function resolveSocketConfig(flag?: string): SocketConfig | null {
+  const path = flag || process.env.SOCKET_PATH;
+  if (!path) return null;
+
+  const rawMode = process.env.SOCKET_MODE?.trim();
+  if (rawMode && !/^[0-7]{3,4}$/.test(rawMode)) {
+    throw new Error(
+      `SOCKET_MODE must be an octal file mode such as 660, got "${rawMode}"`
+    );
+  }
+
+  return {
+    path: resolve(path),
+    mode: rawMode ? parseInt(rawMode, 8) : undefined,
+  };
+}
+
+/**
+ * Remove a socket file left behind by a previous run. Any other kind of file
+ * at that path is left alone, and so is a socket a server still answers on.
+ */
+export async function removeStaleSocket(path: string) {
+  const stats = lstatSync(path, { throwIfNoEntry: false });
+  if (!stats) return;
+  if (!stats.isSocket()) {
+    throw new Error(
+      `Cannot listen on ${path}: the path exists and is not a socket`
+    );
+  }
+  if (!(await isConnectionRefused(path))) {
+    throw new Error(
+      `Cannot listen on ${path}: another server is listening on it`
+    );
+  }
+  unlinkSync(path);
+}
+
+/**
+ * Try to connect to a socket, only a refused connection proves that nothing
+ * listens on it anymore
+ */
+function isConnectionRefused(path: string) {
+  return new Promise<boolean>((resolve) => {
+    const socket = createConnection(path);
+    socket.once("connect", () => {
+      socket.destroy();
+      resolve(false);
+    });
+    socket.once("error", (error: NodeJS.ErrnoException) =>
+      resolve(error.code === "ECONNREFUSED")
+    );
+  });
+}
+
+export function applySocketMode(config: SocketConfig) {
+  if (config.mode !== undefined) chmodSync(config.path, config.mode);
+}
+
+export function removeSocket(path: string) {
+  rmSync(path, { force: true });
+}
+
+/**
+ * The listening socket passed by systemd socket activation, if any. Only the
+ * first socket is used. The LISTEN_* variables are cleared so child
+ * processes do not inherit them.
+ */
+export function getActivationFd() {
+  const env = process.env;
+  const count = Number(env.LISTEN_FDS);
+  const forUs = !env.LISTEN_PID || Number(env.LISTEN_PID) === process.pid;
+  if (!Number.isInteger(count) || count < 1 || !forUs) return null;
+
+  delete env.LISTEN_FDS;
+  delete env.LISTEN_PID;
+  delete env.LISTEN_FDNAMES;
+  return LISTEN_FDS_START;
+}
+
+/**
+ * Accept connections on a socket inherited from systemd and hand them to the
+ * server, which listens on a private Unix socket: Bun.serve cannot adopt an
+ * existing file descriptor. Every connection then comes from the bridge, so
+ * client addresses must come from ADDRESS_HEADER.
+ * @returns The private socket path for the server, and a function closing the bridge
+ */
+export function bridgeActivationSocket(fd: number) {
+  const dir = mkdtempSync(join(tmpdir(), "sveltekit-exec-"));
+  const target = join(dir, "server.sock");
+
+  const bridge = createServer((client) => {
+    const upstream = createConnection(target);
+    client.pipe(upstream).pipe(client);
+    client.on("error", () => upstream.destroy());
+    upstream.on("error", () => client.destroy());
+  });
+  bridge.listen({ fd });
+
+  return {
+    target,
+    close() {
+      bridge.close();
+      rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,166 @@
+// Libs
+import { readFileSync, watchFile, unwatchFile } from "node:fs";
+import { resolve } from "node:path";
+
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  red: "\x1b[31m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+};
+
+// Types
+export interface TlsConfig {
+  /** Path to the PEM certificate (chain) */
+  cert: string;
+  /** Path to the PEM private key */
+  key: string;
+  /** Path to a PEM CA bundle. When set, clients must present a certificate signed by it (mutual TLS). */
+  ca?: string;
+  /** Passphrase for an encrypted private key */
+  passphrase?: string;
+  /** Port of a plain HTTP listener that redirects every request to HTTPS */
+  redirectPort?: number;
+}
+
+// How often certificate files are checked for changes
+const WATCH_INTERVAL_MS = 5000;
+
+/**
+ * Resolve TLS settings. TLS_CERT, TLS_KEY, TLS_CA, TLS_PASSPHRASE and
+ * HTTP_REDIRECT_PORT take precedence over the build-time `tls` option.
+ * @returns null when HTTPS is not configured
+ */
+export function resolveTlsConfig(buildTime?: Partial<TlsConfig>) {
+  const env = process.env;
+  const cert = env.TLS_CERT || buildTime?.cert;
+  const key = env.TLS_KEY || buildTime?.key;
+
+  if (!cert && !key) return null;
+  if (!cert || !key) {
+    throw new Error(
+      "HTTPS requires both a certificate and a private key (TLS_CERT and TLS_KEY)"
+    );
+  }
+
+  const redirectPort = env.HTTP_REDIRECT_PORT
+    ? Number(env.HTTP_REDIRECT_PORT)
+    : buildTime?.redirectPort;
+  if (
+    redirectPort !== undefined &&
+    (!Number.isInteger(redirectPort) ||
+      redirectPort < 0 ||
+      redirectPort > 65535)
+  ) {
+    throw new Error(`Invalid HTTP redirect port "${env.HTTP_REDIRECT_PORT}"`);
+  }
+
+  const ca = env.TLS_CA || buildTime?.ca;
+  const config: TlsConfig = {
+    cert: resolve(cert),
+    key: resolve(key),
+    ca: ca ? resolve(ca) : undefined,
+    passphrase: env.TLS_PASSPHRASE || buildTime?.passphrase,
+    redirectPort,
+  };
+  return config;
+}
+
+/**
+ * Read the certificate files into options for Bun.serve
+ */
+export function loadTlsOptions(config: TlsConfig): Bun.TLSOptions {
+  const read = (filePath: string) => {
+    try {
+      return readFileSync(filePath, "utf-8");
+    } catch (error) {
+      throw new Error(
+        `Cannot read TLS file ${filePath}: ${(error as Error).message}`
+      );
+    }
+  };
+
+  return {
+    cert: read(config.cert),
+    key: read(config.key),
+    passphrase: config.passphrase,
+    ...(config.ca
+      ? { ca: read(config.ca), requestCert: true, rejectUnauthorized: true }
+      : {}),
+  };
+}
+
+/**
+ * Call `onChange` when any of the certificate files changes on disk.
+ * Files are polled rather than watched so that renewals done by replacing
+ * a file or swapping a symlink (certbot, Kubernetes secrets) are detected.
+ * @returns A function that stops watching
+ */
+export function watchCertificates(config: TlsConfig, onChange: () => void) {
+  const files = [config.cert, config.key, config.ca].filter(
+    (filePath): filePath is string => !!filePath
+  );
+  let debounce: ReturnType<typeof setTimeout> | undefined;
+
+  const listener = (
+    current: { mtimeMs: number },
+    previous: { mtimeMs: number }
+  ) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    // Cert and key are usually rewritten together, reload once both are in place
+    clearTimeout(debounce);
+    debounce = setTimeout(onChange, 1000);
+  };
+
+  for (const filePath of files) {
+    watchFile(
+      filePath,
+      { interval: WATCH_INTERVAL_MS, persistent: false },
+      listener
+    );
+  }
+
+  return () => {
+    clearTimeout(debounce);
+    for (const filePath of files) unwatchFile(filePath, listener);
+  };
+}
+
+/**
+ * Start a plain HTTP listener that permanently redirects to the HTTPS server
+ */
+export function startRedirectServer(
+  hostname: string,
+  port: number,
+  httpsPort: number,
+  reusePort = false
+) {
+  return Bun.serve({
+    hostname,
+    port,
+    reusePort,
+    fetch(req) {
+      const url = new URL(req.url);
+      url.protocol = "https:";
+      url.port = httpsPort === 443 ? "" : String(httpsPort);
+      return new Response(null, {
+        status: 308,
+        headers: { Location: url.href },
+      });
+    },
+  });
+}
+
+export function logTlsError(message: string, error: unknown) {
+  console.error(
+    `${colors.red}${colors.bright}[TLS]${colors.reset} ${colors.red}${message}:${colors.reset} ${(error as Error).message}`
+  );
+}
+
+export function logTlsInfo(message: string) {
+  console.log(
+    `${colors.yellow}${colors.bright}[TLS]${colors.reset} ${colors.cyan}${message}${colors.reset}`
+  );
+}
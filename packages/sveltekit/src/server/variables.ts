@@ -0,0 +1,117 @@
+// Colors for terminal output
+const colors = {
+  reset: "\x1b[0m",
+  bright: "\x1b[1m",
+  dim: "\x1b[2m",
+  cyan: "\x1b[36m",
+};
+
+// Types
+interface EnvVariable {
+  /** Expected format of the value (default: "string") */
+  type?: "string" | "number" | "boolean" | "url" | "enum";
+  /** Allowed values, for the "enum" type */
+  values?: string[];
+  /** Value used when the variable is not set */
+  default?: string | number | boolean;
+  /** Whether the variable must be set (default: true, unless there is a default) */
+  required?: boolean;
+  /** Redact the value whenever it is printed */
+  secret?: boolean;
+  description?: string;
+}
+
+type EnvSchema = Record<string, EnvVariable>;
+
+export type { EnvVariable, EnvSchema };
+
+const REDACTED = "********";
+const BOOLEAN_VALUES = ["true", "false", "1", "0", "yes", "no", "on", "off"];
+
+function checkValue(name: string, spec: EnvVariable, value: string) {
+  const shown = `"${spec.secret ? REDACTED : value}"`;
+  switch (spec.type ?? "string") {
+    case "number":
+      if (value.trim() === "" || !Number.isFinite(Number(value))) {
+        return `${name} must be a number, got ${shown}`;
+      }
+      break;
+    case "boolean":
+      if (!BOOLEAN_VALUES.includes(value.trim().toLowerCase())) {
+        return `${name} must be a boolean (true/false, 1/0, yes/no, on/off), got ${shown}`;
+      }
+      break;
+    case "url":
+      if (!URL.canParse(value)) {
+        return `${name} must be a URL, got ${shown}`;
+      }
+      break;
+    case "enum":
+      if (!spec.values?.includes(value)) {
+        return `${name} must be one of ${spec.values?.join(", ")}, got ${shown}`;
+      }
+      break;
+  }
+  return null;
+}
+
+/**
+ * Check the environment against the app's schema, filling in defaults.
+ * @returns Every problem found, empty when the environment is valid
+ */
+export function validateEnv(schema: EnvSchema, env = process.env) {
+  const problems: string[] = [];
+
+  for (const [name, spec] of Object.entries(schema)) {
+    const value = env[name];
+    if (value === undefined || value === "") {
+      if (spec.default !== undefined) {
+        env[name] = String(spec.default);
+      } else if (spec.required ?? true) {
+        const description = spec.description ? ` (${spec.description})` : "";
+        problems.push(`${name} is required${description}`);
+      }
+      continue;
+    }
+
+    const problem = checkValue(name, spec, value);
+    if (problem) problems.push(problem);
+  }
+
+  return problems;
+}
+
+/**
+ * Describe a variable's type and default, e.g. `url, default: "http://..."`
+ */
+export function describeEnvVariable(spec: EnvVariable) {
+  const type =
+    spec.type === "enum" ? spec.values?.join(" | ") : (spec.type ?? "string");
+  const parts = [type];
+  if (spec.default !== undefined) {
+    parts.push(`default: ${spec.secret ? REDACTED : String(spec.default)}`);
+  } else if (spec.required ?? true) {
+    parts.push("required");
+  }
+  if (spec.secret) parts.push("secret");
+  return parts.join(", ");
+}
+
+/**
+ * Print the value of every declared variable, with secrets redacted
+ */
+export function printEnv(schema: EnvSchema, env = process.env) {
+  const names = Object.keys(schema);
+  const width = Math.max(...names.map((name) => name.length)) + 2;
+
+  for (const name of names) {
+    const value = env[name];
+    const shown =
+      value === undefined
+        ? `${colors.dim}(not set)${colors.reset}`
+        : schema[name]!.secret
+          ? REDACTED
+          : value;
+    console.log(`${colors.cyan}${name.padEnd(width)}${colors.reset}${shown}`);
+  }
+}
@@ -0,0 +1,68 @@
+// Libs
+import { logError } from "./errors";
+
+// Types
+type WebSocketHandler = Bun.WebSocketHandler<unknown>;
+
+type WebSocketHandlers = Partial<
+  Pick<WebSocketHandler, "open" | "message" | "close" | "drain">
+>;
+
+export type { WebSocketHandlers };
+
+// Close code sent to clients when the server goes away
+const GOING_AWAY = 1001;
+
+// Variables
+const sockets = new Set<Bun.ServerWebSocket<unknown>>();
+
+async function run(name: string, callback: () => unknown) {
+  try {
+    await callback();
+  } catch (error) {
+    logError(error, `WebSocket ${name} handler`);
+  }
+}
+
+/**
+ * Whether the app exports any WebSocket handler, i.e. requests may be upgraded
+ */
+export function hasWebSocketHandlers(handlers: WebSocketHandlers) {
+  const { open, message, close, drain } = handlers;
+  return !!(open || message || close || drain);
+}
+
+/**
+ * Wrap the handlers exported by the app's websockets module for Bun.serve
+ */
+export function createWebSocketHandler(
+  handlers: WebSocketHandlers
+): WebSocketHandler {
+  const { open, message, close, drain } = handlers;
+
+  return {
+    open(ws) {
+      sockets.add(ws);
+      if (open) run("open", () => open(ws));
+    },
+    message(ws, data) {
+      if (message) run("message", () => message(ws, data));
+    },
+    close(ws, code, reason) {
+      sockets.delete(ws);
+      if (close) run("close", () => close(ws, code, reason));
+    },
+    drain(ws) {
+      if (drain) run("drain", () => drain(ws));
+    },
+  };
+}
+
+/**
+ * Close every open WebSocket, so the server can finish draining on shutdown
+ */
+export function closeWebSockets() {
+  for (const ws of sockets) {
+    ws.close(GOING_AWAY, "Server shutting down");
+  }
+}
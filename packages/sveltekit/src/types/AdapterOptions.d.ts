@@ -13,12 +13,141 @@ export declare type AdapterOptions = {
   binaryName?: string;
   /** Whether to embed static assets in the binary (default: true) */
   embedStatic?: boolean;
+  /** Where static files are looked up: "embedded" (only in the binary, never on disk), "override" (files in client/ and prerendered/ next to the binary replace embedded ones) or "external" (only on disk). Default: "embedded", or "external" when embedStatic is false. Overridden by the ASSET_RESOLUTION env var. */
+  assetResolution?: "embedded" | "override" | "external";
+  /** Whether to precompress text assets with brotli and gzip at build time and serve them based on Accept-Encoding (default: false) */
+  precompress?: boolean;
   /** Target platform for the binary. By default, the binary is built for the current platform. */
   target?: Target;
+  /** Append the Rust target triple to the binary name, e.g. app-x86_64-unknown-linux-gnu, as Tauri expects for sidecars (default: false) */
+  targetTriple?: boolean;
   /** Volume mount point for the binary (default no volume mount). Can be used for persistent storage, usually /data. */
   volume?: string;
+  /** Default port the binary listens on (default: 3000). Overridden by the PORT env var or the --port flag. */
+  port?: number;
+  /** Default address the binary binds to (default: "0.0.0.0"). Overridden by the HOST env var or the --host flag. */
+  host?: string;
+  /** Serve HTTPS directly from the binary. Paths are resolved from the working directory at runtime. Overridden by the TLS_CERT, TLS_KEY, TLS_CA, TLS_PASSPHRASE and HTTP_REDIRECT_PORT env vars. */
+  tls?: {
+    /** Path to the PEM certificate (chain) */
+    cert?: string;
+    /** Path to the PEM private key */
+    key?: string;
+    /** Path to a PEM CA bundle. When set, clients must present a certificate signed by it (mutual TLS). */
+    ca?: string;
+    /** Passphrase for an encrypted private key */
+    passphrase?: string;
+    /** Port of an additional plain HTTP listener that redirects to HTTPS */
+    redirectPort?: number;
+  };
+  /** Maximum request body size, in bytes or with a K/M/G suffix such as "10M", or "Infinity" (default: "512K"). Overridden by the BODY_SIZE_LIMIT env var. */
+  bodySizeLimit?: number | string;
+  /** Seconds a connection may stay idle before it is closed, at most 255, 0 disables it (default: 10). Overridden by the IDLE_TIMEOUT env var. */
+  idleTimeout?: number;
+  /** Seconds the app has to start a response before a 408 is sent, 0 disables it (default: 0). Overridden by the REQUEST_TIMEOUT env var. */
+  requestTimeout?: number;
+  /** Per-route timeout overrides keyed by path glob (`*` matches one segment, `**` any depth), e.g. `{ "/api/events/**": { idleTimeout: 0 } }`. The first matching pattern wins. */
+  routeTimeouts?: Record<
+    string,
+    { idleTimeout?: number; requestTimeout?: number }
+  >;
+  /** Client addresses allowed to reach the app, static files included. Addresses are resolved like event.getClientAddress(), so ADDRESS_HEADER applies. Denied clients get 403. */
+  ipFilter?: {
+    /** IP addresses or CIDR ranges allowed, all others are denied (default: all allowed). Overridden by the IP_ALLOW env var, comma-separated. */
+    allow?: string[];
+    /** IP addresses or CIDR ranges denied, checked before the allow list. Overridden by the IP_DENY env var, comma-separated. */
+    deny?: string[];
+  };
+  /** Require credentials for every request, static files included. Credentials are read at runtime, never embedded in the binary. Overridden by the AUTH env var (basic, bearer or off). */
+  auth?:
+    | false
+    | {
+        /** "basic": users from an htpasswd file or AUTH_USERS, "bearer": the token in AUTH_TOKEN */
+        type: "basic" | "bearer";
+        /** Realm shown in the browser's login prompt (default: the app name) */
+        realm?: string;
+        /** htpasswd file with bcrypt or argon2 hashes, relative to the binary. Overridden by the AUTH_HTPASSWD env var. */
+        htpasswdFile?: string;
+        /** Path globs served without credentials. Health checks are never gated, nor is the metrics endpoint when it has a token or port of its own. */
+        exempt?: string[];
+      };
+  /** Token-bucket rate limits per client address, keyed by path glob, first match wins. false exempts a path from the rules after it. Clients over the limit get 429 with Retry-After. Disabled by the RATE_LIMIT=off env var. */
+  rateLimits?: Record<
+    string,
+    | false
+    | {
+        /** Requests allowed per window */
+        requests: number;
+        /** Window length in seconds (default: 60) */
+        window?: number;
+        /** Requests that may be made at once before the rate applies (default: requests) */
+        burst?: number;
+      }
+  >;
+  /** Access log format written to stdout: "json" (JSON lines), "clf" (Common Log Format) or false to disable it (default: false). Overridden by the ACCESS_LOG env var (json, clf or off). */
+  accessLog?: "json" | "clf" | false;
+  /** Built-in liveness and readiness endpoints answered before SvelteKit, or false to disable them */
+  health?:
+    | false
+    | {
+        /** Liveness probe path (default: "/__health"). Overridden by the HEALTH_PATH env var. */
+        livenessPath?: string;
+        /** Readiness probe path (default: "/__ready"). Overridden by the READY_PATH env var. */
+        readinessPath?: string;
+        /** Module exporting `checks`, a record of named readiness checks (default: "src/health", if it exists) */
+        checks?: string;
+      };
+  /** Environment variables the app needs, checked on startup before the app is initialized. Also listed by --help and printed (secrets redacted) by --print-env. */
+  env?: Record<
+    string,
+    {
+      /** Expected format of the value (default: "string") */
+      type?: "string" | "number" | "boolean" | "url" | "enum";
+      /** Allowed values, for the "enum" type */
+      values?: string[];
+      /** Value used when the variable is not set */
+      default?: string | number | boolean;
+      /** Whether the variable must be set (default: true, unless there is a default) */
+      required?: boolean;
+      /** Redact the value whenever it is printed */
+      secret?: boolean;
+      /** Shown by --help and in validation errors */
+      description?: string;
+    }
+  >;
+  /** Response headers keyed by path glob, applied to static files and SSR responses. A value is either a header set (`null` removes a header) or the name of a preset: "secure" adds HSTS, X-Content-Type-Options, Referrer-Policy, Permissions-Policy and X-Frame-Options. Every matching rule applies, later rules overriding earlier ones. Headers set by the app win over SSR rules. */
+  headers?: Record<string, Record<string, string | null> | "secure">;
+  /** File of header rules in the Netlify/Cloudflare `_headers` format, relative to the project root (default: "_headers", if it exists). Its rules apply before the `headers` option. `false` ignores it. */
+  headersFile?: string | false;
+  /** Module exporting WebSocket handlers (`open`, `message`, `close`, `drain`), relative to the project root (default: "src/websockets"). `false` disables WebSockets. */
+  websockets?: string | false;
+  /** Module exporting lifecycle hooks (`onStart`, `onShutdown` and a `schedule` of cron tasks), relative to the project root (default: "src/exec.hooks"). `false` disables them. */
+  hooks?: string | false;
+  /** HTML page returned to browsers when a request fails, with %sveltekit.status% and %sveltekit.error.message% placeholders (default: the app's `src/error.html`). `false` uses a minimal built-in page. */
+  errorPage?: string | false;
+  /** Include error messages and stacks in error responses (default: false). Overridden by the DEBUG_ERRORS env var (on/off). Do not enable in production. */
+  debugErrors?: boolean;
+  /** Serve Prometheus metrics from the binary (default: false). Overridden by the METRICS (on/off), METRICS_PATH, METRICS_TOKEN and METRICS_PORT env vars. */
+  metrics?:
+    | boolean
+    | {
+        /** Path of the metrics endpoint (default: "/metrics") */
+        path?: string;
+        /** Bearer token required to scrape the metrics */
+        token?: string;
+        /** Serve the metrics on this separate port instead of the app's port. In cluster mode, each worker uses the next port up. */
+        port?: number;
+      };
   /** Whether to automatically open the browser when the server starts (default: false) */
   openBrowser?: boolean;
+  /** When the port is taken, try the next ports ("next") or a random one ("random") instead of exiting (default: false). Overridden by the PORT_FALLBACK env var (next, random or off). */
+  portFallback?: "next" | "random" | false;
+  /** Allow one running instance per user: a second launch opens the browser on the running one and exits (default: false). Overridden by the SINGLE_INSTANCE env var (on or off). */
+  singleInstance?: boolean;
+  /** Seconds to wait for in-flight requests to finish on SIGTERM/SIGINT before forcing them closed (default: 30). Overridden by the SHUTDOWN_TIMEOUT env var. */
+  shutdownTimeout?: number;
+  /** Worker processes sharing the port, or "auto" for one per CPU core (default: 1). Overridden by the WORKERS env var and the --workers flag. Load balancing relies on SO_REUSEPORT, which only Linux supports. */
+  workers?: number | "auto";
   /** Asset validation options */
   validation?: {
     /** Maximum individual asset size in bytes (default: 50MB) */
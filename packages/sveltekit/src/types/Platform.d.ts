@@ -0,0 +1,28 @@
+import type { Server } from "bun";
+
+/**
+ * `event.platform` in apps built with the adapter. Declare it as your
+ * `App.Platform` in `src/app.d.ts`.
+ */
+export declare interface ExecPlatform {
+  /** Bun server handling the request (null under vite dev) */
+  server: Server<unknown> | null;
+  /** The request as Bun received it, for `server.requestIP()` (null under vite dev) */
+  request: Request | null;
+  /** ID of the request, also sent in the X-Request-Id response header */
+  requestId: string;
+  /** Per-user data directory of the app, not created automatically. Overridden by the DATA_DIR env var. */
+  dataDir: string;
+  build: {
+    /** App name and version, from its package.json */
+    name: string;
+    version: string;
+    adapterVersion: string;
+  };
+  /** Delay shutdown until a background promise settles, up to the shutdown timeout */
+  waitUntil(promise: Promise<unknown>): void;
+  /** Upgrade the request to a WebSocket, with `data` available as `ws.data` (false under vite dev) */
+  upgrade(data?: unknown): boolean;
+  /** Send a message to the WebSockets subscribed to a topic */
+  publish(topic: string, message: string | ArrayBuffer | Uint8Array): number;
+}
@@ -1,16 +1,24 @@
 // Libs
 import { readdir, stat } from "fs/promises";
+import { createReadStream } from "fs";
 import { join, relative, parse } from "path";
 import { createHash } from "crypto";
 import { normalize } from "path";
+import { forEachLimited } from "./concurrency";
 
 // Types
+import type { CompressedVariants } from "./compress";
+
 interface ClientAsset {
   filePath: string;
   routePath: string;
   varName: string;
   isPrerendered?: boolean;
   size?: number;
+  /** Content hash, used as the strong ETag at runtime */
+  hash?: string;
+  /** Last modification time in milliseconds since epoch */
+  lastModified?: number;
 }
 
 export type { ClientAsset };
@@ -22,6 +30,9 @@ interface AssetAnalysis {
   assetsByType: Map<string, { count: number; size: number }>;
 }
 
+// Files read at once while hashing, each holds a file descriptor
+const HASH_CONCURRENCY = 16;
+
 function generateVarName(filePath: string) {
   const { name, ext } = parse(filePath);
 
@@ -46,6 +57,16 @@ function generateVarName(filePath: string) {
   return `${cleanName}_${extSuffix}_${pathHash}`;
 }
 
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("base64url").slice(0, 27)))
+      .on("error", reject);
+  });
+}
+
 export async function discoverClientAssets(
   clientDir: string,
   prerenderedDir: string
@@ -88,6 +109,7 @@ export async function discoverClientAssets(
           varName,
           isPrerendered,
           size: stats.size,
+          lastModified: stats.mtimeMs,
         });
       }
     }
@@ -100,11 +122,23 @@ export async function discoverClientAssets(
     walkDirectory(prerenderedDir, true),
   ]);
 
+  // Hashed in a bounded pass, apps can have thousands of files
+  await forEachLimited(assets, HASH_CONCURRENCY, async (asset) => {
+    asset.hash = await hashFile(asset.filePath);
+  });
+
   return assets;
 }
 
-export function generateAssetImports(assets: ClientAsset[]): string {
-  const imports = assets
+export function generateAssetImports(
+  assets: ClientAsset[],
+  compressed: Map<string, CompressedVariants> = new Map()
+): string {
+  const variantAssets = Array.from(compressed.values()).flatMap((variants) =>
+    [variants.br, variants.gzip].filter((variant) => variant !== undefined)
+  );
+
+  const imports = [...assets, ...variantAssets]
     .map((asset) => {
       const relativePath = asset.isPrerendered
         ? `../prerendered${asset.routePath}`
@@ -117,6 +151,26 @@ export function generateAssetImports(assets: ClientAsset[]): string {
     .map((asset) => `  ["${asset.routePath}", ${asset.varName}]`)
     .join(",\n");
 
+  const metadataEntries = assets
+    .filter((asset) => asset.hash)
+    .map(
+      (asset) =>
+        `  ["${asset.routePath}", { hash: "${asset.hash}", lastModified: ${Math.floor(
+          asset.lastModified ?? 0
+        )} }]`
+    )
+    .join(",\n");
+
+  const encodedMapEntries = Array.from(compressed.entries())
+    .map(([routePath, variants]) => {
+      const encodings = [
+        variants.br ? `br: ${variants.br.varName}` : "",
+        variants.gzip ? `gzip: ${variants.gzip.varName}` : "",
+      ].filter(Boolean);
+      return `  ["${routePath}", { ${encodings.join(", ")} }]`;
+    })
+    .join(",\n");
+
   return `// Auto-generated asset imports
 // @ts-nocheck
   ${imports}
@@ -125,6 +179,14 @@ export function generateAssetImports(assets: ClientAsset[]): string {
   ${mapEntries}
   ]);
 
+  export const assetMetadata = new Map([
+  ${metadataEntries}
+  ]);
+
+  export const encodedAssetMap = new Map([
+  ${encodedMapEntries}
+  ]);
+
   export const assets = {
   ${assets.map((asset) => `  ${asset.varName}`).join(",\n")}
   };
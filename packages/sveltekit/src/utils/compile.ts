@@ -8,7 +8,37 @@ import type { Builder } from "@sveltejs/kit";
 import type { Target } from "../types/AdapterOptions";
 
 // Constants
-import { SVELTEKIT_DIR, TARGETS_MAP } from "../constants/const";
+import {
+  SVELTEKIT_DIR,
+  TARGETS_MAP,
+  TARGET_TRIPLES,
+} from "../constants/const";
+
+// Rust target triples of the platforms Bun runs on, for host builds
+const HOST_TRIPLES: Record<string, string> = {
+  "linux-x64": "x86_64-unknown-linux-gnu",
+  "linux-arm64": "aarch64-unknown-linux-gnu",
+  "darwin-x64": "x86_64-apple-darwin",
+  "darwin-arm64": "aarch64-apple-darwin",
+  "win32-x64": "x86_64-pc-windows-msvc",
+  "win32-arm64": "aarch64-pc-windows-msvc",
+};
+
+/**
+ * Rust target triple of the binary, e.g. x86_64-unknown-linux-gnu.
+ * Without a target, the binary is built for the current platform.
+ */
+export function getTargetTriple(target?: Target) {
+  if (target) return TARGET_TRIPLES[target];
+
+  const triple = HOST_TRIPLES[`${process.platform}-${process.arch}`];
+  if (!triple) {
+    throw new Error(
+      `No Rust target triple known for ${process.platform}-${process.arch}, set the target option`
+    );
+  }
+  return triple;
+}
 
 export async function compileApplication(
   builder: Builder,
@@ -52,9 +82,15 @@ export async function compileApplication(
     );
     process.exit(1);
   }
+  // The runtime loads .env next to the binary itself, Bun's own autoload
+  // from the working directory would take precedence over it
+  const buildHelp = execSync("bun build --help", { encoding: "utf8" });
   const compileArgs = [
     "build",
     "--compile",
+    ...(buildHelp.includes("--no-compile-autoload-dotenv")
+      ? ["--no-compile-autoload-dotenv"]
+      : []),
     "--minify",
     "--sourcemap=none",
     ...(options.target ? [`--target=${TARGETS_MAP[options.target]}`] : []),
@@ -0,0 +1,99 @@
+// Libs
+import { readFile, writeFile } from "fs/promises";
+import { extname } from "path";
+import { promisify } from "util";
+import { brotliCompress, gzip, constants } from "zlib";
+import { availableParallelism } from "os";
+import { forEachLimited } from "./concurrency";
+
+// Types
+import type { ClientAsset } from "./assets";
+
+interface CompressedVariants {
+  br?: ClientAsset;
+  gzip?: ClientAsset;
+}
+
+export type { CompressedVariants };
+
+// Text-based formats that benefit from compression. Images, fonts and media
+// are already compressed and are left untouched.
+const COMPRESSIBLE_EXTENSIONS = [
+  ".html",
+  ".js",
+  ".mjs",
+  ".css",
+  ".json",
+  ".svg",
+  ".xml",
+  ".txt",
+  ".map",
+  ".wasm",
+  ".webmanifest",
+];
+
+// Files smaller than this are not worth the extra embedded variants
+const MIN_COMPRESS_SIZE = 1024;
+
+// Assets compressed at once, each is held in memory while compressed
+const COMPRESS_CONCURRENCY = availableParallelism();
+
+const brotli = promisify(brotliCompress);
+const gz = promisify(gzip);
+
+function isCompressible(asset: ClientAsset) {
+  return (
+    COMPRESSIBLE_EXTENSIONS.includes(extname(asset.filePath).toLowerCase()) &&
+    (asset.size ?? 0) >= MIN_COMPRESS_SIZE
+  );
+}
+
+/**
+ * Write brotli (.br) and gzip (.gz) variants next to each compressible asset.
+ * A variant is only kept when it is smaller than the original file.
+ * @returns A map of route path to the generated variants
+ */
+export async function precompressAssets(
+  assets: ClientAsset[]
+): Promise<Map<string, CompressedVariants>> {
+  const variants = new Map<string, CompressedVariants>();
+
+  await forEachLimited(
+    assets.filter(isCompressible),
+    COMPRESS_CONCURRENCY,
+    async (asset) => {
+      const content = await readFile(asset.filePath);
+      const [brContent, gzContent] = await Promise.all([
+        brotli(content, {
+          params: {
+            [constants.BROTLI_PARAM_MODE]: constants.BROTLI_MODE_TEXT,
+            [constants.BROTLI_PARAM_QUALITY]: constants.BROTLI_MAX_QUALITY,
+            [constants.BROTLI_PARAM_SIZE_HINT]: content.length,
+          },
+        }),
+        gz(content, { level: constants.Z_BEST_COMPRESSION }),
+      ]);
+
+      const entry: CompressedVariants = {};
+      for (const [encoding, compressed, suffix] of [
+        ["br", brContent, ".br"],
+        ["gzip", gzContent, ".gz"],
+      ] as const) {
+        if (compressed.length >= content.length) continue;
+
+        await writeFile(asset.filePath + suffix, compressed);
+        entry[encoding] = {
+          filePath: asset.filePath + suffix,
+          routePath: asset.routePath + suffix,
+          varName: `${asset.varName}_${suffix.slice(1).toUpperCase()}`,
+          isPrerendered: asset.isPrerendered,
+          size: compressed.length,
+        };
+      }
+
+      if (entry.br || entry.gzip) variants.set(asset.routePath, entry);
+    }
+  );
+
+  return variants;
+}
@@ -0,0 +1,18 @@
+/**
+ * Run a task on every item, with at most `limit` tasks running at once
+ * @param {number} limit - Maximum number of tasks in flight
+ */
+export async function forEachLimited<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await task(items[next++]!);
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker)
+  );
+}
@@ -24,8 +24,9 @@ export async function generateDockerfile(options: AdapterOptions) {
 		"",
 		`RUN chmod +x ./${binaryName}`,
 		"",
-		...(volume ? [`VOLUME ["${volume}"]`, ""] : []),
-		"EXPOSE 3000",
+		// The app's data directory (event.platform.dataDir) lives on the volume
+		...(volume ? [`VOLUME ["${volume}"]`, `ENV DATA_DIR=${volume}`, ""] : []),
+		`EXPOSE ${options.port ?? 3000}`,
 		"",
 		"# Start the application",
 		`CMD ["./${binaryName}"]`,
@@ -0,0 +1,76 @@
+// Libs
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+
+// Types
+/** Header values to set, or null to remove a header */
+type HeaderSet = Record<string, string | null>;
+
+export type { HeaderSet };
+
+/**
+ * Translate a `_headers` path, where `*` (splat) matches anything and
+ * `:name` placeholders match one segment, into the runtime's path glob
+ */
+function toPathGlob(path: string) {
+  return path
+    .split("/")
+    .map((segment) =>
+      segment.startsWith(":") ? "*" : segment.replace(/\*+/g, "**")
+    )
+    .join("/");
+}
+
+/**
+ * Parse a `_headers` file, in the format used by Netlify and Cloudflare Pages:
+ * a path on its own line, followed by indented `Name: value` lines.
+ * `! Name` removes a header.
+ */
+export function parseHeadersFile(content: string, fileName = "_headers") {
+  const rules: Array<[string, HeaderSet]> = [];
+  let current: HeaderSet | null = null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) return;
+
+    if (!/^\s/.test(line)) {
+      if (!trimmed.startsWith("/")) {
+        throw new Error(
+          `${fileName}:${index + 1}: expected a path starting with "/", got "${trimmed}"`
+        );
+      }
+      current = {};
+      rules.push([toPathGlob(trimmed), current]);
+      return;
+    }
+
+    if (!current) {
+      throw new Error(`${fileName}:${index + 1}: header without a path`);
+    }
+    if (trimmed.startsWith("!")) {
+      current[trimmed.slice(1).trim()] = null;
+      return;
+    }
+
+    const separator = trimmed.indexOf(":");
+    if (separator <= 0) {
+      throw new Error(
+        `${fileName}:${index + 1}: expected "Name: value", got "${trimmed}"`
+      );
+    }
+    current[trimmed.slice(0, separator).trim()] = trimmed
+      .slice(separator + 1)
+      .trim();
+  });
+
+  return rules;
+}
+
+/**
+ * Read the `_headers` file of the project, if there is one
+ */
+export async function readHeadersFile(filePath: string) {
+  const content = await readFile(resolve(filePath), "utf-8").catch(() => null);
+  return content === null ? [] : parseHeadersFile(content, filePath);
+}
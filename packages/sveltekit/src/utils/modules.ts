@@ -0,0 +1,52 @@
+// Libs
+import { stat } from "fs/promises";
+import { resolve } from "path";
+
+// Extensions tried, in order, when a module path has none
+const MODULE_EXTENSIONS = [".ts", ".js", ".mts", ".mjs"];
+
+/**
+ * Find a user module to bundle into the runtime
+ * @param {string} modulePath - Path relative to the project root, with or without extension
+ * @returns The absolute path of the module, or null if it does not exist
+ */
+export async function resolveUserModule(
+  modulePath: string
+): Promise<string | null> {
+  const candidates = /\.[mc]?[jt]s$/.test(modulePath)
+    ? [modulePath]
+    : MODULE_EXTENSIONS.map((ext) => modulePath + ext);
+
+  for (const candidate of candidates) {
+    const absolutePath = resolve(process.cwd(), candidate);
+    const stats = await stat(absolutePath).catch(() => null);
+    if (stats?.isFile()) return absolutePath;
+  }
+
+  return null;
+}
+
+/**
+ * Generate a module re-exporting the given names from a user module. Every
+ * name is exported as undefined when there is no user module. Optional
+ * access keeps Bun from warning about names the module does not export.
+ */
+export function generateUserModuleProxy(
+  modulePath: string | null,
+  exportNames: string[]
+): string {
+  if (!modulePath) {
+    return `// Auto-generated, no user module found
+${exportNames.map((name) => `export const ${name} = undefined;`).join("\n")}
+`;
+  }
+
+  const importPath = JSON.stringify(modulePath.replace(/\\/g, "/"));
+  return `// Auto-generated
+// @ts-nocheck
+import * as userModule from ${importPath};
+${exportNames
+  .map((name) => `export const ${name} = userModule?.${name};`)
+  .join("\n")}
+`;
+}
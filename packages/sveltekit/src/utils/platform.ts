@@ -0,0 +1,28 @@
+// Libs
+import { randomUUID } from "crypto";
+import { getDataDir } from "../server/instance";
+
+// Types
+import type { ExecPlatform } from "../types/Platform";
+
+/**
+ * Create `event.platform` for vite dev and preview, where there is no Bun
+ * server: WebSocket upgrades fail and background promises are not awaited
+ * @param build - App and adapter versions, as embedded in the binary
+ */
+export function createDevPlatform(
+  build: ExecPlatform["build"]
+): ExecPlatform {
+  return {
+    server: null,
+    request: null,
+    requestId: randomUUID(),
+    dataDir: getDataDir(build.name),
+    build,
+    waitUntil(promise) {
+      promise.catch((error) => console.error("waitUntil task failed:", error));
+    },
+    upgrade: () => false,
+    publish: () => 0,
+  };
+}
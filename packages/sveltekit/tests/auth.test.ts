@@ -0,0 +1,125 @@
+import { afterEach, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import {
+  createAuthenticator,
+  parseHtpasswd,
+  resolveAuthConfig,
+  type AuthConfig,
+} from "../src/server/auth";
+
+let hash: string;
+beforeAll(async () => {
+  hash = await Bun.password.hash("pw", { algorithm: "bcrypt", cost: 4 });
+});
+
+afterEach(() => {
+  delete process.env.AUTH;
+  delete process.env.AUTH_TOKEN;
+  delete process.env.AUTH_USERS;
+});
+
+const request = (authorization?: string) =>
+  new Request("http://localhost/", {
+    headers: authorization ? { Authorization: authorization } : {},
+  });
+const basic = (credentials: string) =>
+  `Basic ${Buffer.from(credentials).toString("base64")}`;
+
+describe("parseHtpasswd", () => {
+  test("reads entries, skipping blank lines and comments", () => {
+    const users = parseHtpasswd(
+      `# users\r\nalice:${hash}\r\n\r\n  bob:$argon2id$v=19$x  \n`,
+      "htpasswd"
+    );
+    expect([...users.keys()]).toEqual(["alice", "bob"]);
+    expect(users.get("bob")).toBe("$argon2id$v=19$x");
+  });
+
+  test("reports the line of an invalid entry", () => {
+    expect(() => parseHtpasswd(`a:${hash}\nb:{SHA}abc`, "htpasswd")).toThrow(
+      'htpasswd:2: expected "user:hash" with a bcrypt or argon2 hash'
+    );
+    expect(() => parseHtpasswd(`:${hash}`, "htpasswd")).toThrow(
+      "htpasswd:1:"
+    );
+  });
+});
+
+describe("resolveAuthConfig", () => {
+  test("splits AUTH_USERS on spaces and newlines", () => {
+    process.env.AUTH_USERS = `a:${hash} b:${hash}\nc:${hash}`;
+    const config = resolveAuthConfig({ type: "basic" }, "app")!;
+    expect([...config.users.keys()]).toEqual(["a", "b", "c"]);
+  });
+
+  test("requires credentials for the chosen type", () => {
+    expect(() => resolveAuthConfig({ type: "basic" }, "app")).toThrow(
+      "Basic authentication requires users"
+    );
+    process.env.AUTH = "bearer";
+    expect(() => resolveAuthConfig({ type: "basic" }, "app")).toThrow(
+      "Bearer authentication requires AUTH_TOKEN"
+    );
+  });
+
+  test("is disabled by AUTH=off", () => {
+    process.env.AUTH = "off";
+    expect(resolveAuthConfig({ type: "bearer" }, "app")).toBeNull();
+  });
+});
+
+describe("createAuthenticator", () => {
+  const bearer: AuthConfig = {
+    type: "bearer",
+    realm: "app",
+    users: new Map(),
+    token: "s3cret",
+    exempt: ["/public/**"],
+  };
+
+  test("compares the bearer token, with any case of the scheme", async () => {
+    const authenticate = createAuthenticator(bearer);
+    const status = async (authorization?: string) =>
+      (await authenticate(request(authorization), "/"))?.status ?? 200;
+
+    expect(await status("Bearer s3cret")).toBe(200);
+    expect(await status("bearer s3cret")).toBe(200);
+    expect(await status("BEARER s3cret")).toBe(200);
+    expect(await status("Bearer s3cre")).toBe(401);
+    expect(await status("Bearers3cret")).toBe(401);
+    expect(await status("Basic s3cret")).toBe(401);
+    expect(await status()).toBe(401);
+  });
+
+  test("challenges unauthenticated requests, except exempt paths", async () => {
+    const authenticate = createAuthenticator(bearer);
+    const response = await authenticate(request(), "/");
+    expect(response?.headers.get("WWW-Authenticate")).toBe(
+      'Bearer realm="app"'
+    );
+    expect(await authenticate(request(), "/public/a.css")).toBeNull();
+  });
+
+  test("verifies Basic credentials once, then remembers them", async () => {
+    const authenticate = createAuthenticator({
+      type: "basic",
+      realm: "app",
+      users: new Map([["u", hash]]),
+      exempt: [],
+    });
+    const status = async (credentials: string) =>
+      (await authenticate(request(basic(credentials)), "/"))?.status ?? 200;
+    const verify = spyOn(Bun.password, "verify");
+    try {
+      expect(await status("u:pw")).toBe(200);
+      expect(await status("u:pw")).toBe(200);
+      expect(verify).toHaveBeenCalledTimes(1);
+
+      expect(await status("u:no")).toBe(401);
+      expect(await status("u:no")).toBe(401);
+      expect(verify).toHaveBeenCalledTimes(3);
+      expect(await status("x:pw")).toBe(401);
+    } finally {
+      verify.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { forEachLimited } from "../src/utils/concurrency";
+
+describe("forEachLimited", () => {
+  test("runs every task, never more than the limit at once", async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+
+    await forEachLimited([1, 2, 3, 4, 5, 6, 7], 3, async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await Bun.sleep(5);
+      done.push(item);
+      running--;
+    });
+
+    expect(peak).toBe(3);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  test("resolves for an empty list", async () => {
+    await forEachLimited([], 4, async () => {});
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { parseRange, type Validators } from "../src/server/conditional";
+
+const validators: Validators = { etag: '"abc"', lastModified: 0 };
+const range = (value: string) =>
+  parseRange(
+    new Request("http://localhost/file", { headers: { Range: value } }),
+    10,
+    validators
+  );
+
+describe("parseRange", () => {
+  test("parses start, open-ended and suffix ranges", () => {
+    expect(range("bytes=2-5")).toEqual({ start: 2, end: 5 });
+    expect(range("bytes=2-")).toEqual({ start: 2, end: 9 });
+    expect(range("bytes=-3")).toEqual({ start: 7, end: 9 });
+  });
+
+  test("ignores a range ending before its start", () => {
+    expect(range("bytes=5-2")).toBeNull();
+  });
+
+  test("rejects a range starting past the end of the file", () => {
+    expect(range("bytes=10-12")).toBe("unsatisfiable");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { getNextRun, parseCron } from "../src/server/cron";
+
+// Local times, as schedules run in local time
+const next = (expression: string, after: Date) =>
+  getNextRun(parseCron(expression), after);
+
+describe("parseCron", () => {
+  test("expands steps and ranges", () => {
+    expect([...parseCron("*/15 * * * *").minutes]).toEqual([0, 15, 30, 45]);
+    expect([...parseCron("5/20 * * * *").minutes]).toEqual([5, 25, 45]);
+    expect([...parseCron("0 10-20/5,23 * * *").hours]).toEqual([
+      10, 15, 20, 23,
+    ]);
+  });
+
+  test("reads month and day names, and 7 as Sunday", () => {
+    const schedule = parseCron("0 0 * JAN,jul mon-wed,7");
+    expect([...schedule.months]).toEqual([1, 7]);
+    expect([...schedule.weekdays].sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  test("expands aliases", () => {
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+    expect(parseCron("@Weekly")).toEqual(parseCron("0 0 * * 0"));
+  });
+
+  test("rejects invalid expressions", () => {
+    for (const [expression, message] of [
+      ["* * * *", "expected 5 fields, got 4"],
+      ["60 * * * *", "minute must be from 0 to 59, got 60"],
+      ["5-1 * * * *", '"5-1" is an empty range'],
+      ["*/0 * * * *", '"0" is not a valid step'],
+      ["0 0 * foo *", '"foo" is not a valid month'],
+    ]) {
+      expect(() => parseCron(expression!)).toThrow(
+        `Invalid cron expression "${expression}": ${message}`
+      );
+    }
+  });
+});
+
+describe("getNextRun", () => {
+  test("returns the next matching minute, never the current one", () => {
+    expect(next("*/15 * * * *", new Date(2024, 0, 1, 12, 7))).toEqual(
+      new Date(2024, 0, 1, 12, 15)
+    );
+    expect(next("*/15 * * * *", new Date(2024, 0, 1, 12, 15, 30))).toEqual(
+      new Date(2024, 0, 1, 12, 30)
+    );
+  });
+
+  test("skips to the next matching day and month", () => {
+    // Friday January 5th, 2024
+    expect(next("0 9 * * mon-fri", new Date(2024, 0, 5, 10))).toEqual(
+      new Date(2024, 0, 8, 9)
+    );
+    expect(next("@yearly", new Date(2024, 5, 1))).toEqual(
+      new Date(2025, 0, 1)
+    );
+  });
+
+  test("runs on either restricted day field", () => {
+    const after = new Date(2024, 0, 1);
+    expect(next("0 0 13 * fri", after)).toEqual(new Date(2024, 0, 5));
+    expect(next("0 0 13 * *", after)).toEqual(new Date(2024, 0, 13));
+    expect(next("0 0 * * fri", after)).toEqual(new Date(2024, 0, 5));
+  });
+
+  test("finds rare dates and returns null for impossible ones", () => {
+    expect(next("0 0 29 2 *", new Date(2024, 2, 1))).toEqual(
+      new Date(2028, 1, 29)
+    );
+    expect(next("0 0 30 2 *", new Date(2024, 0, 1))).toBeNull();
+    expect(next("0 0 31 4,6,9,11 *", new Date(2024, 0, 1))).toBeNull();
+  });
+});
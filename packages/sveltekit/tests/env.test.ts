@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { parseDotenv } from "../src/server/env";
+
+describe("parseDotenv", () => {
+  test("parses unquoted, quoted and exported values", () => {
+    const env = parseDotenv(
+      ["A=plain", "export B = two ", 'C="a\\nb"', "D='$raw'", "E="].join("\n")
+    );
+    expect(env).toEqual({
+      A: "plain",
+      B: "two",
+      C: "a\nb",
+      D: "$raw",
+      E: "",
+    });
+  });
+
+  test("strips comments after quoted and unquoted values", () => {
+    const env = parseDotenv(
+      ['A="value" # comment', "B='x' # c", "C=v # c", "D=a#b"].join("\n")
+    );
+    expect(env).toEqual({ A: "value", B: "x", C: "v", D: "a#b" });
+  });
+
+  test("reads double-quoted values spanning several lines", () => {
+    expect(parseDotenv('KEY="line 1\nline 2" # c')).toEqual({
+      KEY: "line 1\nline 2",
+    });
+  });
+
+  test("reports the line of a malformed entry", () => {
+    expect(() => parseDotenv('A=1\nB="x" junk', "app.env")).toThrow(
+      "app.env:2: expected KEY=value"
+    );
+  });
+});
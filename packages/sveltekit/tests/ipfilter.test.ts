@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  isAddressAllowed,
+  resolveIpFilterConfig,
+} from "../src/server/ipfilter";
+
+const allows = (allow: string[], address: string) =>
+  isAddressAllowed(address, resolveIpFilterConfig({ allow })!);
+
+describe("isAddressAllowed", () => {
+  beforeEach(() => {
+    delete process.env.IP_ALLOW;
+    delete process.env.IP_DENY;
+  });
+
+  test("treats IPv4-mapped IPv6 addresses as IPv4", () => {
+    expect(allows(["10.0.0.0/8"], "::ffff:10.1.2.3")).toBe(true);
+    expect(allows(["::ffff:10.0.0.1"], "10.0.0.1")).toBe(true);
+    expect(allows(["10.0.0.0/8"], "::ffff:11.0.0.1")).toBe(false);
+  });
+
+  test("expands :: at the start, middle and end", () => {
+    expect(allows(["::1"], "0:0:0:0:0:0:0:1")).toBe(true);
+    expect(allows(["fd00::/8"], "fd12:3456::1")).toBe(true);
+    expect(allows(["fd00::/8"], "fe80::1")).toBe(false);
+    expect(allows(["2001:db8::"], "2001:db8:0:0:0:0:0:0")).toBe(true);
+  });
+
+  test("reads an IPv4 address embedded in IPv6", () => {
+    expect(allows(["64:ff9b::c000:201"], "64:ff9b::192.0.2.1")).toBe(true);
+    expect(allows(["64:ff9b::/96"], "64:ff9b::198.51.100.7")).toBe(true);
+  });
+
+  test("matches prefixes up to their edges", () => {
+    expect(allows(["192.168.1.0/24"], "192.168.1.255")).toBe(true);
+    expect(allows(["192.168.1.0/24"], "192.168.2.0")).toBe(false);
+    expect(allows(["10.0.0.1/32"], "10.0.0.2")).toBe(false);
+    expect(allows(["0.0.0.0/0"], "203.0.113.9")).toBe(true);
+    expect(allows(["0.0.0.0/0"], "2001:db8::1")).toBe(false);
+    expect(allows(["2001:db8::/127"], "2001:db8::1")).toBe(true);
+    expect(allows(["2001:db8::/128"], "2001:db8::1")).toBe(false);
+  });
+
+  test("ignores brackets and zone indexes", () => {
+    expect(allows(["fe80::/10"], "[fe80::1%eth0]")).toBe(true);
+  });
+
+  test("applies the deny list before the allow list", () => {
+    const config = resolveIpFilterConfig({
+      allow: ["10.0.0.0/8"],
+      deny: ["10.0.0.0/24"],
+    })!;
+    expect(isAddressAllowed("10.0.0.5", config)).toBe(false);
+    expect(isAddressAllowed("10.0.1.5", config)).toBe(true);
+  });
+
+  test("lets unparsable addresses through only without an allow list", () => {
+    const denyOnly = resolveIpFilterConfig({ deny: ["10.0.0.0/8"] })!;
+    expect(isAddressAllowed("unknown", denyOnly)).toBe(true);
+    expect(allows(["10.0.0.0/8"], "unknown")).toBe(false);
+  });
+});
+
+describe("resolveIpFilterConfig", () => {
+  test("rejects prefixes outside the address width", () => {
+    for (const entry of ["10.0.0.0/33", "10.0.0.0/-1", "::/129", "nope"]) {
+      expect(() => resolveIpFilterConfig({ allow: [entry] })).toThrow(
+        "must contain IP addresses or CIDR ranges"
+      );
+    }
+  });
+
+  test("returns null when both lists are empty", () => {
+    expect(resolveIpFilterConfig({ allow: [" "], deny: [] })).toBeNull();
+  });
+});
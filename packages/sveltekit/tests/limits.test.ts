@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test";
+import { parseBodySizeLimit } from "../src/server/limits";
+
+describe("parseBodySizeLimit", () => {
+  test("parses bytes, units and Infinity", () => {
+    expect(parseBodySizeLimit("512K")).toBe(512 * 1024);
+    expect(parseBodySizeLimit(" 1m ")).toBe(1024 * 1024);
+    expect(parseBodySizeLimit("Infinity")).toBe(Infinity);
+  });
+
+  test("rejects empty values", () => {
+    for (const value of ["", " ", "M"]) {
+      expect(() => parseBodySizeLimit(value)).toThrow(
+        "Invalid body size limit"
+      );
+    }
+  });
+});
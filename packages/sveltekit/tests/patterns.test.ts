@@ -0,0 +1,17 @@
+import { describe, expect, test } from "bun:test";
+import { decodeRoutePath, matchPath } from "../src/server/patterns";
+
+describe("decodeRoutePath", () => {
+  test("decodes the path SvelteKit routes on", () => {
+    expect(decodeRoutePath("/api/ech%6F")).toBe("/api/echo");
+    expect(matchPath("/api/echo", decodeRoutePath("/api/ech%6F")!)).toBe(true);
+  });
+
+  test("keeps %25 and reserved characters encoded", () => {
+    expect(decodeRoutePath("/a%2Fb/%2561")).toBe("/a%2Fb/%2561");
+  });
+
+  test("returns null for a malformed path", () => {
+    expect(decodeRoutePath("/%E0%A4%A")).toBeNull();
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, test } from "bun:test";
+import { applyProxyOrigin, type ProxyConfig } from "../src/server/proxy";
+
+const config: ProxyConfig = { origin: "https://my.site", xffDepth: 1 };
+
+describe("applyProxyOrigin", () => {
+  test("rewrites the request to the configured origin", () => {
+    const req = applyProxyOrigin(
+      new Request("http://localhost:3000/api/echo?q=1"),
+      config
+    );
+    expect(req.url).toBe("https://my.site/api/echo?q=1");
+  });
+
+  test("keeps the configured origin for a path starting with //", () => {
+    const req = applyProxyOrigin(
+      new Request("http://localhost:3000//evil.com/api/echo"),
+      config
+    );
+    const url = new URL(req.url);
+    expect(url.origin).toBe("https://my.site");
+    expect(url.pathname).toBe("//evil.com/api/echo");
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import {
+  createRateLimiter,
+  resolveRateLimits,
+  type RateLimit,
+} from "../src/server/ratelimit";
+
+const limiter = (rules: Record<string, RateLimit | false>) =>
+  createRateLimiter(resolveRateLimits(rules)!);
+
+describe("createRateLimiter", () => {
+  let now: number;
+  const advance = (seconds: number) => setSystemTime((now += seconds * 1000));
+
+  beforeEach(() => {
+    delete process.env.RATE_LIMIT;
+    now = Date.UTC(2024, 0, 1);
+    setSystemTime(now);
+  });
+  afterEach(() => setSystemTime());
+
+  test("allows a burst, then returns the seconds until a token is back", () => {
+    const check = limiter({ "/api/**": { requests: 2, window: 10 } });
+    expect(check("/api/a", "1.1.1.1")).toBeNull();
+    expect(check("/api/a", "1.1.1.1")).toBeNull();
+    expect(check("/api/a", "1.1.1.1")).toBe(5);
+
+    advance(2.5);
+    expect(check("/api/a", "1.1.1.1")).toBe(3);
+  });
+
+  test("refills the bucket over time, up to its capacity", () => {
+    const check = limiter({ "/**": { requests: 1, window: 1, burst: 2 } });
+    expect(check("/", "1.1.1.1")).toBeNull();
+    expect(check("/", "1.1.1.1")).toBeNull();
+    expect(check("/", "1.1.1.1")).toBe(1);
+
+    advance(1);
+    expect(check("/", "1.1.1.1")).toBeNull();
+    expect(check("/", "1.1.1.1")).toBe(1);
+
+    advance(60);
+    expect(check("/", "1.1.1.1")).toBeNull();
+    expect(check("/", "1.1.1.1")).toBeNull();
+    expect(check("/", "1.1.1.1")).toBe(1);
+  });
+
+  test("keeps a bucket per client address and rule", () => {
+    const check = limiter({
+      "/api/**": { requests: 1 },
+      "/**": { requests: 1 },
+    });
+    expect(check("/api/a", "1.1.1.1")).toBeNull();
+    expect(check("/api/b", "1.1.1.1")).toBe(60);
+    expect(check("/api/a", "2.2.2.2")).toBeNull();
+    expect(check("/", "1.1.1.1")).toBeNull();
+  });
+
+  test("exempts paths ruled false from the rules after them", () => {
+    const check = limiter({
+      "/api/health": false,
+      "/api/**": { requests: 1 },
+    });
+    expect(check("/api/health", "1.1.1.1")).toBeNull();
+    expect(check("/api/health", "1.1.1.1")).toBeNull();
+    expect(check("/api/a", "1.1.1.1")).toBeNull();
+    expect(check("/api/a", "1.1.1.1")).toBe(60);
+    expect(check("/other", "1.1.1.1")).toBeNull();
+  });
+});
+
+describe("resolveRateLimits", () => {
+  afterEach(() => {
+    delete process.env.RATE_LIMIT;
+  });
+
+  test("is disabled by RATE_LIMIT=off or without rules", () => {
+    expect(resolveRateLimits({})).toBeNull();
+    process.env.RATE_LIMIT = "off";
+    expect(resolveRateLimits({ "/**": { requests: 1 } })).toBeNull();
+  });
+
+  test("rejects invalid limits", () => {
+    expect(() => resolveRateLimits({ "/**": { requests: 0 } })).toThrow(
+      'rateLimits["/**"].requests must be a positive number'
+    );
+    process.env.RATE_LIMIT = "maybe";
+    expect(() => resolveRateLimits({ "/**": { requests: 1 } })).toThrow(
+      'RATE_LIMIT must be "on" or "off"'
+    );
+  });
+});
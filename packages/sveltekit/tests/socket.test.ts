@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+  existsSync,
+  mkdtempSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { createServer, type Server } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { removeStaleSocket } from "../src/server/socket";
+
+const listen = (path: string) =>
+  new Promise<Server>((resolve) => {
+    const server = createServer().listen(path, () => resolve(server));
+  });
+const close = (server: Server) =>
+  new Promise<void>((resolve) => server.close(() => resolve()));
+
+describe("removeStaleSocket", () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "socket-test-"));
+  });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  test("ignores a missing path", async () => {
+    await removeStaleSocket(join(dir, "missing.sock"));
+  });
+
+  test("removes a socket nothing listens on", async () => {
+    // Moved away, the file outlives the server that would remove it
+    const server = await listen(join(dir, "bound.sock"));
+    const path = join(dir, "stale.sock");
+    renameSync(join(dir, "bound.sock"), path);
+    await close(server);
+
+    await removeStaleSocket(path);
+    expect(existsSync(path)).toBe(false);
+  });
+
+  test("refuses a socket a server answers on", async () => {
+    const path = join(dir, "live.sock");
+    const server = await listen(path);
+    try {
+      await expect(removeStaleSocket(path)).rejects.toThrow(
+        "another server is listening on it"
+      );
+      expect(existsSync(path)).toBe(true);
+    } finally {
+      await close(server);
+    }
+  });
+
+  test("refuses a path that is not a socket", async () => {
+    const path = join(dir, "file");
+    writeFileSync(path, "");
+    await expect(removeStaleSocket(path)).rejects.toThrow("is not a socket");
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { validateEnv } from "../src/server/variables";
+
+describe("validateEnv", () => {
+  test("reports malformed values", () => {
+    const problems = validateEnv({ PORT: { type: "number" } }, { PORT: "80a" });
+    expect(problems).toEqual(['PORT must be a number, got "80a"']);
+  });
+
+  test("redacts secret values of every type", () => {
+    const problems = validateEnv(
+      {
+        PIN: { type: "number", secret: true },
+        DEBUG: { type: "boolean", secret: true },
+        REGION: { type: "enum", values: ["eu", "us"], secret: true },
+        DATABASE_URL: { type: "url", secret: true },
+      },
+      { PIN: "abc12", DEBUG: "abc12", REGION: "abc12", DATABASE_URL: "abc12" }
+    );
+    expect(problems).toHaveLength(4);
+    for (const problem of problems) {
+      expect(problem).not.toContain("abc12");
+      expect(problem).toContain('"********"');
+    }
+  });
+});